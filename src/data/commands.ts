@@ -0,0 +1,367 @@
+import { placeBuilding as addBuilding, getNeighbors, removeBuilding, mergeBuildings as fuseBuildings, moveBuilding as relocateBuilding } from "./simulation";
+import * as b from "./types/buildings";
+import { BuildingType, RunState, UndoEntry } from "./types/data";
+
+const buildings = b as { [key: string]: BuildingType };
+
+/**
+ * Why a command couldn't be carried out.
+ * - `notFound`: The loop, building type or upgrade doesn't exist.
+ * - `cantAfford`: The run doesn't have enough resources to pay for it.
+ * - `occupied`: The loop already has a building on it.
+ * - `empty`: The loop has no building on it.
+ * - `onCooldown`: Selling is still on cooldown.
+ * - `maxed`: The upgrade is already at its maximum level, or the building at its highest tier.
+ * - `notAllowed`: The rules don't allow it, e.g. selling a neutral building, changing speed in Hardcore or merging buildings that aren't identical and adjacent.
+ * - `nothingToUndo`: There's no placement or upgrade left that can still be undone.
+ * - `locked`: The building's specializations aren't unlocked yet, since the upgrade they need isn't maxed.
+ */
+export type CommandError =
+    "notFound" |
+    "cantAfford" |
+    "occupied" |
+    "empty" |
+    "onCooldown" |
+    "maxed" |
+    "notAllowed" |
+    "nothingToUndo" |
+    "locked"
+
+export type CommandResult = { ok: true } | { ok: false, error: CommandError };
+
+/** How long a placement or upgrade can be undone for, in seconds of game time. */
+export const undoWindow = 5;
+/** How many placements and upgrades can be undone at most. */
+export const undoLength = 5;
+
+/** The Energy fee for moving a building, before its upgrade investment is added. */
+export const moveBaseCost = 25;
+/** The part of the Energy invested into a building's upgrades added to its moving fee. */
+export const moveInvestmentFactor = 0.25;
+/** The most levels of an upgrade that buying max buys at once, so upgrades without a maximum stay cheap to total up. */
+export const maxBulkLevels = 100;
+
+/** The Info cost of each in-run upgrade, by the level being bought. */
+export const infoUpgradeCosts: Record<string, (level: number) => number> = {
+    stress: level => 1.1 ** level * 50,
+    energy: level => 1.15 ** level * 50,
+};
+
+function fail(error: CommandError): CommandResult {
+    return { ok: false, error };
+}
+
+function pushUndo(state: RunState, entry: Omit<UndoEntry, "expires">) {
+    if (!state.config.undo) return;
+    state.undoStack.push({ ...entry, expires: state.lifetime + undoWindow });
+    if (state.undoStack.length > undoLength) state.undoStack.shift();
+}
+
+function canAfford(state: RunState, cost: Record<string, number>) {
+    return Object.entries(cost).every(([id, amount]) => (state.resources[id] ?? 0) >= amount);
+}
+
+/**
+ * Gets how much placing a building of a type costs right now, after cost scaling and any reductions.
+ */
+export function getBuildingCost(state: RunState, type: string) {
+    let factor = 1.1 ** (state.buildingFactor + (state.buildingFactors[type] ?? 0));
+    let reduction = type == "beamer" && state.config.buildingUpgrades.beamer?.cost == true ? 5 : 0;
+    return Object.fromEntries(Object.entries(buildings[type]?.baseCost ?? {})
+        .map(([id, cost]) => [id, (cost - reduction) * factor]));
+}
+
+function addCost(total: Record<string, number>, cost: Record<string, number>) {
+    for (let [id, amount] of Object.entries(cost)) {
+        total[id] = (total[id] ?? 0) + amount;
+    }
+    return total;
+}
+
+/**
+ * Gets how many more levels of a building's upgrade can be bought before it's maxed.
+ */
+export function getRemainingLevels(state: RunState, loopId: string, upgrade: string) {
+    let building = state.loops[loopId]?.building;
+    let max = buildings[building?.type ?? ""]?.upgrades[upgrade]?.max;
+    if (!building || max === undefined) return Infinity;
+    return Math.max(max - 1 - (building.upgrades[upgrade] ?? 0), 0);
+}
+
+/**
+ * Gets how much buying the next levels of a building's upgrade costs in total.
+ * @param amount How many levels to buy at once.
+ * @param level The level to start buying from, if not the building's current one.
+ */
+export function getUpgradeCost(state: RunState, loopId: string, upgrade: string, amount = 1, level?: number) {
+    let building = state.loops[loopId]?.building;
+    let upg = buildings[building?.type ?? ""]?.upgrades[upgrade];
+    let start = level ?? building?.upgrades[upgrade] ?? 0;
+    let total: Record<string, number> = {};
+    for (let i = 0; i < amount && upg; i++) {
+        addCost(total, upg.cost(start + i));
+    }
+    return total;
+}
+
+/**
+ * Gets how many levels of a building's upgrade can be afforded at once, without going past its maximum or {@link maxBulkLevels}.
+ */
+export function getMaxAffordableLevels(state: RunState, loopId: string, upgrade: string) {
+    let building = state.loops[loopId]?.building;
+    let upg = buildings[building?.type ?? ""]?.upgrades[upgrade];
+    if (!building || !upg) return 0;
+    let limit = Math.min(getRemainingLevels(state, loopId, upgrade), maxBulkLevels);
+    let level = building.upgrades[upgrade] ?? 0;
+    let total: Record<string, number> = {};
+    let amount = 0;
+    while (amount < limit && canAfford(state, addCost(total, upg.cost(level + amount)))) amount++;
+    return amount;
+}
+
+/**
+ * Checks whether a building could be placed on a loop, without placing it.
+ */
+export function checkPlaceBuilding(state: RunState, loopId: string, type: string): CommandResult {
+    let loop = state.loops[loopId];
+    if (!loop || !buildings[type]) return fail("notFound");
+    if (loop.building) return fail("occupied");
+    if (!canAfford(state, getBuildingCost(state, type))) return fail("cantAfford");
+    return { ok: true };
+}
+
+/**
+ * Pays for and places a building on an empty loop. A quarter of what it cost is lost when it's sold.
+ */
+export function placeBuilding(state: RunState, loopId: string, type: string): CommandResult {
+    let check = checkPlaceBuilding(state, loopId, type);
+    if (!check.ok) return check;
+
+    let cost = getBuildingCost(state, type);
+    for (let [id, amount] of Object.entries(cost)) {
+        state.resources[id] -= amount;
+    }
+    let building = addBuilding(state, loopId, type);
+    building.sellValue = Object.fromEntries(Object.entries(cost).map(([id, amount]) => [id, amount * 0.75]));
+    state.buildingFactor++;
+    state.buildingFactors[type] = (state.buildingFactors[type] ?? 0) + 1;
+    pushUndo(state, { type: "place", loop: loopId, target: building.id, cost });
+    return { ok: true };
+}
+
+/**
+ * Checks whether the next levels of a building's upgrade could be bought, without buying them.
+ */
+export function checkUpgradeBuilding(state: RunState, loopId: string, upgrade: string, amount = 1): CommandResult {
+    amount = Math.max(Math.floor(amount), 1);
+    let building = state.loops[loopId]?.building;
+    if (!state.loops[loopId]) return fail("notFound");
+    if (!building) return fail("empty");
+    let upg = buildings[building.type].upgrades[upgrade];
+    if (!upg) return fail("notFound");
+    if (getRemainingLevels(state, loopId, upgrade) < amount) return fail("maxed");
+    if (!canAfford(state, getUpgradeCost(state, loopId, upgrade, amount))) return fail("cantAfford");
+    return { ok: true };
+}
+
+/**
+ * Pays for and buys the next levels of a building's upgrade. Half of what they cost is refunded when the building is sold.
+ */
+export function upgradeBuilding(state: RunState, loopId: string, upgrade: string, amount = 1): CommandResult {
+    amount = Math.max(Math.floor(amount), 1);
+    let check = checkUpgradeBuilding(state, loopId, upgrade, amount);
+    if (!check.ok) return check;
+
+    let building = state.loops[loopId].building!;
+    let cost = getUpgradeCost(state, loopId, upgrade, amount);
+    pushUndo(state, { type: "upgrade", loop: loopId, target: building.id, cost, building: JSON.parse(JSON.stringify(building)) });
+    for (let [id, amount] of Object.entries(cost)) {
+        state.resources[id] -= amount;
+        building.sellValue[id] = (building.sellValue[id] ?? 0) + amount * 0.5;
+    }
+    building.upgrades[upgrade] = (building.upgrades[upgrade] ?? 0) + amount;
+    state.events.emit("buildingUpgraded", building, upgrade, loopId);
+    return { ok: true };
+}
+
+/**
+ * Checks whether the building on a loop could be sold, without selling it.
+ */
+export function checkSellBuilding(state: RunState, loopId: string): CommandResult {
+    let building = state.loops[loopId]?.building;
+    if (!state.loops[loopId]) return fail("notFound");
+    if (!building) return fail("empty");
+    if (building.type == "pins" || building.neutral) return fail("notAllowed");
+    if (state.sellCooldown > 0) return fail("onCooldown");
+    return { ok: true };
+}
+
+/**
+ * Sells the building on a loop for its sell value, and starts the sell cooldown.
+ */
+export function sellBuilding(state: RunState, loopId: string): CommandResult {
+    let check = checkSellBuilding(state, loopId);
+    if (!check.ok) return check;
+
+    let loop = state.loops[loopId];
+    let building = loop.building!;
+    for (let [id, value] of Object.entries(building.sellValue)) {
+        state.resources[id] += value;
+    }
+    state.buildingFactor--;
+    state.buildingFactors[building.type] = (state.buildingFactors[building.type] ?? 0) - 1;
+    removeBuilding(state, loopId);
+    state.undoStack = state.undoStack.filter(entry => entry.loop != loopId);
+
+    state.sellCooldown = state.config.sellCooldownLength;
+    state.events.emit("buildingSold", building, loopId);
+    return { ok: true };
+}
+
+/**
+ * Gets how much moving the building on a loop costs. The fee grows with the Energy spent on its upgrades.
+ */
+export function getMoveCost(state: RunState, loopId: string) {
+    let building = state.loops[loopId]?.building;
+    let invested = 0;
+    for (let [id, level] of Object.entries(building?.upgrades ?? {})) {
+        invested += getUpgradeCost(state, loopId, id, level, 0).energy ?? 0;
+    }
+    return { energy: moveBaseCost + invested * moveInvestmentFactor };
+}
+
+/**
+ * Checks whether the building on a loop could be moved to another loop, without moving it.
+ */
+export function checkMoveBuilding(state: RunState, loopId: string, to: string): CommandResult {
+    let building = state.loops[loopId]?.building;
+    if (!state.loops[loopId] || !state.loops[to]) return fail("notFound");
+    if (!building) return fail("empty");
+    if (state.loops[to].building) return fail("occupied");
+    if (building.type == "pins" || building.neutral) return fail("notAllowed");
+    if (!canAfford(state, getMoveCost(state, loopId))) return fail("cantAfford");
+    return { ok: true };
+}
+
+/**
+ * Pays for and moves the building on a loop to an empty loop, keeping its upgrades and data.
+ * Its placement and upgrades can no longer be undone afterwards.
+ */
+export function moveBuilding(state: RunState, loopId: string, to: string): CommandResult {
+    let check = checkMoveBuilding(state, loopId, to);
+    if (!check.ok) return check;
+
+    for (let [id, amount] of Object.entries(getMoveCost(state, loopId))) {
+        state.resources[id] -= amount;
+    }
+    state.undoStack = state.undoStack.filter(entry => entry.loop != loopId);
+    relocateBuilding(state, loopId, to);
+    return { ok: true };
+}
+
+/**
+ * Checks whether the building on a loop could be given a specialization, without giving it.
+ */
+export function checkSpecializeBuilding(state: RunState, loopId: string, specialization: string): CommandResult {
+    let building = state.loops[loopId]?.building;
+    if (!state.loops[loopId]) return fail("notFound");
+    if (!building) return fail("empty");
+    let specializations = buildings[building.type].specializations;
+    if (!specializations?.choices[specialization]) return fail("notFound");
+    if (building.specialization) return fail("notAllowed");
+    if (getRemainingLevels(state, loopId, specializations.upgrade) > 0) return fail("locked");
+    return { ok: true };
+}
+
+/**
+ * Gives the building on a loop one of its specializations. This can only be done once per building.
+ * Its placement and upgrades can no longer be undone afterwards.
+ */
+export function specializeBuilding(state: RunState, loopId: string, specialization: string): CommandResult {
+    let check = checkSpecializeBuilding(state, loopId, specialization);
+    if (!check.ok) return check;
+
+    state.loops[loopId].building!.specialization = specialization;
+    state.undoStack = state.undoStack.filter(entry => entry.loop != loopId);
+    return { ok: true };
+}
+
+/**
+ * Checks whether the building on a loop could be merged with the one on another loop, without merging them.
+ */
+export function checkMergeBuildings(state: RunState, loopId: string, other: string): CommandResult {
+    let building = state.loops[loopId]?.building;
+    let otherBuilding = state.loops[other]?.building;
+    if (!state.loops[loopId] || !state.loops[other] || loopId == other) return fail("notFound");
+    if (!building || !otherBuilding) return fail("empty");
+    if (building.neutral || otherBuilding.neutral || building.type != otherBuilding.type ||
+        (building.tier ?? 1) != (otherBuilding.tier ?? 1) || !getNeighbors(state, loopId).includes(other)) return fail("notAllowed");
+    if (!buildings[building.type].tiers?.[(building.tier ?? 1) - 1]) return fail("maxed");
+    return { ok: true };
+}
+
+/**
+ * Merges the building on a loop with the identical building on an adjacent loop into the next tier, freeing the other loop.
+ * Their placements and upgrades can no longer be undone afterwards.
+ */
+export function mergeBuildings(state: RunState, loopId: string, other: string): CommandResult {
+    let check = checkMergeBuildings(state, loopId, other);
+    if (!check.ok) return check;
+
+    let type = state.loops[loopId].building!.type;
+    state.undoStack = state.undoStack.filter(entry => entry.loop != loopId && entry.loop != other);
+    fuseBuildings(state, loopId, other);
+    state.buildingFactor--;
+    state.buildingFactors[type] = (state.buildingFactors[type] ?? 0) - 1;
+    return { ok: true };
+}
+
+/**
+ * Changes how fast the run plays. Speeds above the run's maximum aren't allowed, and neither is any change if its maximum is 0.
+ */
+export function setSpeed(state: RunState, speed: number): CommandResult {
+    let max = state.config.maxSpeed ?? Infinity;
+    if (max <= 0 || speed > max || speed <= 0) return fail("notAllowed");
+    state.speed = speed;
+    return { ok: true };
+}
+
+/**
+ * Pays for and buys the next level of an in-run Info upgrade.
+ */
+export function buyInfoUpgrade(state: RunState, upgrade: string): CommandResult {
+    let cost = infoUpgradeCosts[upgrade];
+    if (!cost) return fail("notFound");
+    if (state.resources.info < cost(state.upgrades[upgrade] ?? 0)) return fail("cantAfford");
+    state.resources.info -= cost(state.upgrades[upgrade] ?? 0);
+    state.upgrades[upgrade] = (state.upgrades[upgrade] ?? 0) + 1;
+    return { ok: true };
+}
+
+/**
+ * Undoes the latest placement or upgrade that hasn't expired yet, refunding what it cost and restoring the building and cost scaling to how they were before it.
+ */
+export function undo(state: RunState): CommandResult {
+    if (!state.config.undo) return fail("notAllowed");
+    let entry = state.undoStack[state.undoStack.length - 1];
+    if (!entry) return fail("nothingToUndo");
+
+    let loop = state.loops[entry.loop];
+    // Buildings like Pins can remove themselves, and something else may have been built in their place since
+    if (!loop?.building || loop.building.id != entry.target) return fail("nothingToUndo");
+    state.undoStack.pop();
+    for (let [id, amount] of Object.entries(entry.cost)) {
+        state.resources[id] += amount;
+    }
+    if (entry.type == "place") {
+        let type = loop.building.type;
+        removeBuilding(state, entry.loop);
+        state.buildingFactor--;
+        state.buildingFactors[type] = (state.buildingFactors[type] ?? 0) - 1;
+    } else {
+        // Restore in place so the building keeps its board node, and keep what it's done since
+        Object.assign(loop.building, entry.building, { stats: loop.building.stats });
+    }
+    state.events.emit("actionUndone", entry);
+    return { ok: true };
+}
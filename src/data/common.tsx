@@ -485,18 +485,3 @@ export function createFormulaPreview(
         return <>{formatSmall(formula.evaluate())}</>;
     });
 }
-
-export function chooseUniqueElements<T>(arr: T[], n: number): T[] {
-    if (n > arr.length) {
-      throw new Error("n cannot be greater than the number of unique elements in the array.");
-    }
-  
-    const shuffled = arr.slice(); // Create a copy of the array
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]; // Swap elements
-    }
-  
-    return shuffled.slice(0, n); // Return the first n elements
-}
-  
\ No newline at end of file
@@ -0,0 +1,114 @@
+/**
+ * @module
+ * @hidden
+ */
+import { createNanoEvents } from "nanoevents";
+import type { Building, Damage, DamageResult, Enemy, Loop, UndoEntry } from "./types/data";
+
+/** All types of events able to be sent or emitted from a run's event bus. */
+export interface RunEvents {
+    /**
+     * Sent whenever a new enemy enters the board.
+     * @param enemy The enemy being spawned.
+     * @param loop The ID of the loop it's spawned on.
+     */
+    enemySpawned: (enemy: Enemy, loop: string) => void;
+    /**
+     * Sent whenever an enemy is defeated, after its loot has been collected.
+     * @param enemy The enemy being defeated.
+     * @param loop The ID of the loop it was on.
+     */
+    enemyKilled: (enemy: Enemy, loop: string) => void;
+    /**
+     * Sent whenever an enemy moves through a junction to another loop.
+     * @param enemy The enemy moving.
+     * @param from The ID of the loop it left.
+     * @param to The ID of the loop it entered.
+     */
+    enemyMoved: (enemy: Enemy, from: string, to: string) => void;
+    /**
+     * Sent whenever a boss loses enough health to enter its next phase.
+     * @param enemy The boss.
+     * @param phase The number of the phase entered, starting from 1.
+     */
+    bossPhaseChanged: (enemy: Enemy, phase: number) => void;
+    /**
+     * Sent whenever a building damages an enemy.
+     * @param enemy The enemy being damaged.
+     * @param result The damage actually dealt and the overkill.
+     * @param damage The damage as it was sent, before crits, effects and resistances.
+     * @param source The loop of the building dealing the damage.
+     */
+    damageDealt: (enemy: Enemy, result: DamageResult, damage: Damage, source: Loop) => void;
+    /**
+     * Sent whenever a building affects an enemy in any way other than damaging it, e.g. applying an effect.
+     * @param enemy The enemy being affected.
+     * @param source The loop of the building affecting it.
+     */
+    enemyAffected: (enemy: Enemy, source: Loop) => void;
+    /**
+     * Sent whenever a building is placed on a loop.
+     * @param building The building being placed.
+     * @param loop The ID of the loop it's placed on.
+     */
+    buildingPlaced: (building: Building, loop: string) => void;
+    /**
+     * Sent whenever a building is sold.
+     * @param building The building being sold.
+     * @param loop The ID of the loop it was on.
+     */
+    buildingSold: (building: Building, loop: string) => void;
+    /**
+     * Sent whenever a building leaves the board, whether it's sold, undone or removes itself.
+     * @param building The building being removed.
+     * @param loop The ID of the loop it was on.
+     */
+    buildingRemoved: (building: Building, loop: string) => void;
+    /**
+     * Sent whenever a building is moved to another loop.
+     * @param building The building being moved.
+     * @param from The ID of the loop it was on.
+     * @param to The ID of the loop it's moved to.
+     */
+    buildingMoved: (building: Building, from: string, to: string) => void;
+    /**
+     * Sent whenever two identical buildings are merged into the next tier.
+     * @param building The merged building.
+     * @param loop The ID of the loop the merged building is on.
+     * @param other The ID of the loop that was freed.
+     */
+    buildingsMerged: (building: Building, loop: string, other: string) => void;
+    /**
+     * Sent whenever a building's upgrade is bought.
+     * @param building The building being upgraded.
+     * @param upgrade The ID of the upgrade bought.
+     * @param loop The ID of the loop the building is on.
+     */
+    buildingUpgraded: (building: Building, upgrade: string, loop: string) => void;
+    /**
+     * Sent whenever the run advances to the next cycle, after that cycle's enemies and loops have spawned.
+     * @param cycle The cycle that was just reached.
+     */
+    cycleAdvanced: (cycle: number) => void;
+    /**
+     * Sent whenever a new loop is added to the board.
+     * @param loop The ID of the loop being added.
+     */
+    loopSpawned: (loop: string) => void;
+    /**
+     * Sent whenever a placement or upgrade is undone.
+     * @param entry The undo entry of the action being undone.
+     */
+    actionUndone: (entry: UndoEntry) => void;
+    /**
+     * Sent whenever the run loses health, after its shield has absorbed what it could.
+     * @param amount The amount of health lost.
+     * @param cause What dealt the damage, as recorded in the health timeline.
+     */
+    healthLost: (amount: number, cause: string) => void;
+}
+
+/** Creates an event bus for hooking into the {@link RunEvents} of a single run. */
+export function createRunEvents() {
+    return createNanoEvents<RunEvents>();
+}
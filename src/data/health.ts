@@ -0,0 +1,74 @@
+import { HealthEvent, RunState } from "./types/data";
+
+/** The most health a run can have. */
+export const maxHealth = 100;
+/** The most shield a run can hold at once. */
+export const maxShield = 50;
+/** How many entries of the health timeline are kept. Older entries are dropped first. */
+export const timelineLength = 100;
+/** Changes from the same cause less than this many ticks apart are merged into one timeline entry. */
+export const timelineMergeWindow = 60;
+
+/**
+ * Damages a run. The shield absorbs as much of the damage as it can before the rest is taken from health.
+ * @param state The run to damage.
+ * @param amount The damage to deal.
+ * @param cause What dealt the damage, as shown in the health timeline.
+ * @returns The health actually lost.
+ */
+export function damageRun(state: RunState, amount: number, cause: string) {
+    let absorbed = Math.min(state.shield, amount);
+    let lost = amount - absorbed;
+    state.shield -= absorbed;
+    state.health -= lost;
+    recordHealthEvent(state, cause, 0 - lost, 0 - absorbed);
+    if (lost > 0) state.events.emit("healthLost", lost, cause);
+    return lost;
+}
+
+/**
+ * Restores a run's health, up to {@link maxHealth}.
+ * @param state The run to heal.
+ * @param amount The health to restore.
+ * @param cause What restored the health, as shown in the health timeline.
+ * @returns The health actually restored.
+ */
+export function healRun(state: RunState, amount: number, cause: string) {
+    let healed = Math.max(Math.min(amount, maxHealth - state.health), 0);
+    state.health += healed;
+    recordHealthEvent(state, cause, healed, 0);
+    return healed;
+}
+
+/**
+ * Charges a run's shield, up to {@link maxShield}.
+ * @param state The run to shield.
+ * @param amount The shield to add.
+ * @param cause What charged the shield, as shown in the health timeline.
+ * @returns The shield actually added.
+ */
+export function shieldRun(state: RunState, amount: number, cause: string) {
+    let charged = Math.max(Math.min(amount, maxShield - state.shield), 0);
+    state.shield += charged;
+    recordHealthEvent(state, cause, 0, charged);
+    return charged;
+}
+
+function recordHealthEvent(state: RunState, cause: string, health: number, shield: number) {
+    if (health == 0 && shield == 0) return;
+
+    let last: HealthEvent | undefined;
+    for (let i = state.healthEvents.length - 1; i >= 0 && !last; i--) {
+        if (state.healthEvents[i].cause == cause) last = state.healthEvents[i];
+    }
+    if (last && state.tick - last.end < timelineMergeWindow && Math.sign(last.health + last.shield) == Math.sign(health + shield)) {
+        last.end = state.tick;
+        last.health += health;
+        last.shield += shield;
+        last.healthAfter = state.health;
+        return;
+    }
+
+    state.healthEvents.push({ cause, start: state.tick, end: state.tick, health, shield, healthAfter: state.health });
+    if (state.healthEvents.length > timelineLength) state.healthEvents.shift();
+}
@@ -16,9 +16,9 @@ import { DecimalSource, format, formatTime } from "util/bignum";
 import { render } from "util/vue";
 import { createLayerTreeNode, createResetButton } from "../common";
 import { BoardNode, BoardNodeLink, GenericBoard, createBoard } from "features/boards/board";
-import { noPersist, persistent } from "game/persistence";
-import { BoardConnections, BoardID, Building, BuildingType, Enemy, Loop } from "../types/data";
-import { CSSProperties, StyleValue, computed, nextTick, ref, unref } from "vue";
+import { persistent } from "game/persistence";
+import { BoardConnections, BoardID, Building, BuildingStats, BuildingType, Enemy, EnemyType, HealthEvent, JunctionGate, Loop, LoopTerrain, Replay, RunAction, RunConfig, RunInput, RunState, UndoEntry } from "../types/data";
+import { CSSProperties, StyleValue, computed, markRaw, nextTick, reactive, ref, unref, watch } from "vue";
 import * as types from "../types/board";
 import player from "game/player";
 import { globalBus } from "game/events";
@@ -26,27 +26,26 @@ import Decimal, { formatWhole } from "util/break_eternity";
 import { createBar } from "features/bars/bar";
 import { Direction } from "util/common";
 import * as b from "../types/buildings";
+import * as en from "../types/enemies";
+import * as tr from "../types/terrains";
 import "components/common/features.css";
 import vuePlugin from "@vitejs/plugin-vue";
 import ModalVue from "components/Modal.vue";
-import { GenericRepeatable, createRepeatable } from "features/repeatable";
-import Formula from "game/formulas/formulas";
-import { createCostRequirement, displayRequirements } from "game/requirements";
+import { GenericClickable, createClickable } from "features/clickables/clickable";
 import settings from "game/settings";
+import { advance, chooseLoop, defaultInfluence, getBuildingTier, getEnemyStress, getInfluence, getInfluenceArea, getInfluenceSources, getJunctionId, getLoopPosition, getNeighbors, getRouting, resetRun, tickLength, toggleGate } from "../simulation";
+import { createSeed, formatSeed } from "util/random";
+import { createRunEvents } from "../events";
+import * as commands from "../commands";
+import { maxHealth } from "../health";
+import { getBuildingStats } from "../stats";
 
 const buildings = b as { [key: string]: BuildingType };
+const enemyTypes = en as { [key: string]: EnemyType };
+const terrains = tr as { [key: string]: LoopTerrain };
 
 const id = "game";
 
-function loopIdToPosition(id: string) {
-    let [x, y] = id.split("x");
-    return { x: +x, y: +y };
-}
-
-function loopPositionToId(x: number, y: number) {
-    return x + "x" + y;
-}
-
 let building: Building | undefined = undefined;
 
 enum GameState {
@@ -54,6 +53,7 @@ enum GameState {
     Started = "start",
     Stopped = "stop",
     Idle = "idle",
+    Replaying = "replay",
 }
 
 const layer = createLayer(id, function (this: BaseLayer) {
@@ -62,11 +62,35 @@ const layer = createLayer(id, function (this: BaseLayer) {
     const cycle = persistent<number>(0);
     const cycleProgress = persistent<number>(0);
     const health = persistent<number>(0);
+    const shield = persistent<number>(0);
+    const healthEvents = persistent<HealthEvent[]>([]);
+    const buildingStats = persistent<Record<string, BuildingStats>>({});
     const stress = ref<number>(0);
+    const loopStress = ref<Record<string, number>>({});
+    const showHeatmap = ref<boolean>(false);
 
     const loops = persistent<Record<string, Loop>>({});
+    const gates = persistent<Record<string, JunctionGate>>({});
 
     const lifetime = persistent<number>(0);
+
+    const seed = persistent<number>(0);
+    const rng = persistent<number>(0);
+    const tick = persistent<number>(0);
+    const tickAccumulator = persistent<number>(0);
+
+    const runConfig = persistent<RunConfig>({
+        mode: "standard",
+        enemyDecrease: 0,
+        enemyHealthReduction: 0,
+        buildingUpgrades: {},
+        sellCooldownLength: 60,
+    });
+    const startingResources = persistent<{ [key: string]: number }>({});
+    const inputs = persistent<RunInput[]>([]);
+    const replays = persistent<Record<string, Replay>>({});
+    const watchedReplay = ref<Replay | null>(null);
+    const replaySpeed = ref<number>(1);
     const resources = {
         energy: createResource<number>(0, "Energy"),
         info: createResource<number>(0, "Info"),
@@ -75,19 +99,7 @@ const layer = createLayer(id, function (this: BaseLayer) {
 
     const buildingFactor = persistent<number>(0);
     const buildingFactors = persistent<{ [key: string]: number }>({});
-
-    function getBuildingCostFactor(building: string) {
-        return 1.1 ** (buildingFactor.value + (buildingFactors.value[building] ?? 0));
-    }
-
-    function getBuildingCostReduction(building: string) {
-        if (building === "beamer") {
-            if (main.buildingUpgrades.beamer.cost.bought.value == true) {
-                return 5;
-            }
-        }
-        return 0;
-    }
+    const nextBuildingId = persistent<number>(0);
 
     const gameState = persistent<string>("", false);
     const gameSpeed = persistent<number>(0);
@@ -95,6 +107,9 @@ const layer = createLayer(id, function (this: BaseLayer) {
     const gameStucked = ref<boolean>(false);
     
     const sellCooldown = persistent<number>(0);
+    const undoStack = persistent<UndoEntry[]>([]);
+    const expansionCandidates = persistent<string[]>([]);
+    const expansionTimer = persistent<number>(0);
     
     const xpWorth = ref<number>(0);
     
@@ -135,65 +150,149 @@ const layer = createLayer(id, function (this: BaseLayer) {
         requestAnimationFrame(frame);
     }
 
+    const upgradeLevels = persistent<Record<string, number>>({ stress: 0, energy: 0 });
+
     const upgrades = {
-        stress: createRepeatable(self => ({
+        stress: createClickable(() => ({
             display: jsx(() => <>
-                Level {formatWhole(self.amount.value)}<br/>
+                Level {formatWhole(upgradeLevels.value.stress)}<br/>
                 <h3>Stress Tolerance</h3>
                 <hr/>
-                &uarr; {formatWhole(Decimal.add(self.amount.value, 101))}% &uarr;<br/>
-                {formatWhole(Decimal.add(self.amount.value, 100))}%<br/>
+                &uarr; {formatWhole(upgradeLevels.value.stress + 101)}% &uarr;<br/>
+                {formatWhole(upgradeLevels.value.stress + 100)}%<br/>
                 <hr/>
-                {displayRequirements(upgrades.stress.requirements)}
+                {formatWhole(commands.infoUpgradeCosts.stress(upgradeLevels.value.stress))} {resources.info.displayName}
             </>),
-            requirements: createCostRequirement(() => ({
-                resource: noPersist(resources.info),
-                cost: Formula.variable(self.amount).pow_base(1.1).mul(50),
-            })),
+            canClick: () => resources.info.value >= commands.infoUpgradeCosts.stress(upgradeLevels.value.stress),
+            onClick: () => dispatch({ type: "infoUpgrade", upgrade: "stress" }),
         })),
-        energy: createRepeatable(self => ({
+        energy: createClickable(() => ({
             display: jsx(() => <>
-                Level {formatWhole(self.amount.value)}<br/>
+                Level {formatWhole(upgradeLevels.value.energy)}<br/>
                 <h3>Enemy Base Energy</h3>
                 <hr/>
-                &uarr; {formatWhole(Decimal.add(self.amount.value, 26))} &uarr;<br/>
-                {formatWhole(Decimal.add(self.amount.value, 25))}<br/>
+                &uarr; {formatWhole(upgradeLevels.value.energy + 26)} &uarr;<br/>
+                {formatWhole(upgradeLevels.value.energy + 25)}<br/>
                 <hr/>
-                {displayRequirements(upgrades.energy.requirements)}
+                {formatWhole(commands.infoUpgradeCosts.energy(upgradeLevels.value.energy))} {resources.info.displayName}
             </>),
-            requirements: createCostRequirement(() => ({
-                resource: noPersist(resources.info),
-                cost: Formula.variable(self.amount).pow_base(1.15).mul(50),
-            })),
+            canClick: () => resources.info.value >= commands.infoUpgradeCosts.energy(upgradeLevels.value.energy),
+            onClick: () => dispatch({ type: "infoUpgrade", upgrade: "energy" }),
         })),
-    } as Record<string, GenericRepeatable>;
-
-    function startGame() {
-        cycle.value = 0;
-        cycleProgress.value = 0;
-        resources.energy.value = Decimal.mul(main.upgrades.startEnergy.amount.value, 25)
-            .add(main.getCapsuleEffect("energy")).add(100).toNumber();
-        resources.info.value = Decimal.mul(main.upgrades.startInfo.amount.value, 50)
-            .toNumber();
+    } as Record<string, GenericClickable>;
+
+    const run = reactive({
+        config: runConfig,
+        seed,
+        rng,
+        tick,
+        accumulator: tickAccumulator,
+        loops,
+        gates,
+        resources,
+        upgrades: upgradeLevels,
+        cycle,
+        cycleProgress,
+        health,
+        shield,
+        healthEvents,
+        buildingStats,
+        stress,
+        loopStress,
+        lifetime,
+        sellCooldown,
+        buildingFactor,
+        buildingFactors,
+        nextBuildingId,
+        speed: gameSpeed,
+        undoStack,
+        expansionCandidates,
+        expansionTimer,
+        events: markRaw(createRunEvents()),
+    }) as unknown as RunState;
+
+    function connectToSource(enemy: Enemy, source: Loop) {
+        if (!enemy[BoardConnections]) enemy[BoardConnections] = {};
+        enemy[BoardConnections][source[BoardID] ?? 0] = 0;
+    }
+    run.events.on("damageDealt", (enemy, result, damage, source) => connectToSource(enemy, source));
+    run.events.on("enemyAffected", connectToSource);
+
+    function checkStucked() {
+        if (gameState.value != GameState.Started || gameStucked.value) return;
+        if (Object.values(loops.value).some(loop => loop.building)) return;
+        for (let b of main.selectedBuildings.value) {
+            if (buildings[b].class == "damager" && canAffordBuilding(b)) return;
+        }
+        main.objectives.value.stucked = main.objectives.value.stucked ?? 0;
+        gameStucked.value = true;
+        setTimeout(() => {
+            gamePaused.value = false;
+            endGame();
+        }, 3000);
+    }
+    run.events.on("buildingSold", building => {
+        for (let [id, value] of Object.entries(building.sellValue)) {
+            resourcesTotal[id].value = Decimal.sub(resourcesTotal[id].value, value).toNumber();
+        }
+    });
+    run.events.on("actionUndone", entry => {
+        for (let [id, value] of Object.entries(entry.cost)) {
+            resourcesTotal[id].value = Decimal.sub(resourcesTotal[id].value, value).toNumber();
+        }
+    });
+
+    function checkWysi() {
+        if (gameState.value == GameState.Started && Math.floor(resources.energy.value) == 727) {
+            main.objectives.value.wysi = main.objectives.value.wysi ?? 0;
+        }
+    }
+
+    run.events.on("enemyKilled", enemy => {
+        if (gameState.value == GameState.Started && enemyTypes[enemy.type ?? "normal"]?.boss) {
+            main.stats.bossesDefeated.value++;
+            main.stats.bestBossCycle.value = Math.max(main.stats.bestBossCycle.value, enemy.cycle ?? cycle.value);
+        }
+    });
+
+    function startGame(runSeed = createSeed()) {
+        runConfig.value = {
+            mode: main.selectedGameMode.value,
+            enemyDecrease: Number(main.upgrades.enemyDecrease.amount.value),
+            enemyHealthReduction: main.getCapsuleEffect("health"),
+            buildingUpgrades: Object.fromEntries(Object.entries(main.buildingUpgrades).map(
+                ([id, upgs]) => [id, Object.fromEntries(Object.entries(upgs).map(([uid, upg]) => [uid, upg.bought.value]))]
+            )),
+            sellCooldownLength: Decimal.mul(main.upgrades.sellCooldown.amount.value, -5).add(60).toNumber(),
+            topology: main.maps.value[main.selectedMap.value]?.topology ?? main.selectedTopology.value,
+            map: main.maps.value[main.selectedMap.value],
+            expansion: gameModes[main.selectedGameMode.value].expansion ?? main.selectedExpansion.value,
+            maxSpeed: gameModes[main.selectedGameMode.value].maxSpeed ?? Number(main.upgrades.speedManip.amount.value),
+            undo: gameModes[main.selectedGameMode.value].undo,
+            healthRegen: Decimal.mul(main.upgrades.selfRepair.amount.value, 0.05)
+                .add(main.getCapsuleEffect("regen")).toNumber(),
+        };
+        startRun({
+            energy: Decimal.mul(main.upgrades.startEnergy.amount.value, 25)
+                .add(main.getCapsuleEffect("energy")).add(100).toNumber(),
+            info: Decimal.mul(main.upgrades.startInfo.amount.value, 50)
+                .toNumber(),
+        }, runSeed);
+    }
+
+    function startRun(runResources: { [key: string]: number }, runSeed: number) {
+        resetRun(run, runResources, runSeed);
+        startingResources.value = { ...runResources };
+        movingFrom.value = "";
+        mergingFrom.value = "";
+        inputs.value = [];
         nextTick(() => {
             resourcesTotal.energy.value = 0;
             resourcesTotal.info.value = resources.info.value;
         })
-        buildingFactor.value = 0;
-        buildingFactors.value = {};
-        lifetime.value = 0;
 
         gameState.value = GameState.Started;
-        gameSpeed.value = 1;
         gameStucked.value = false;
-
-        for (let upg of Object.values(upgrades)) {
-            upg.amount.value = 0;
-        }
-
-        sellCooldown.value = 0;
-
-        health.value = 100;
         
         let timeout = () => setTimeout(() => {
             if (board.stage.value) {
@@ -205,21 +304,101 @@ const layer = createLayer(id, function (this: BaseLayer) {
             }
         }, 0);
         timeout();
+    }
 
-        loops.value = { "0x0": { enemies: [
-            {
-                angle: 0,
-                lifetime: 0,
-                speed: Number.EPSILON,
-                health: 20,
-                maxHealth: 20,
-                effects: {},
-                loot: { energy: 100 },
-            }
-        ] } };
+    function recordInput(action: RunAction) {
+        if (gameState.value == GameState.Started) {
+            inputs.value.push({ ...action, tick: tick.value });
+        }
+    }
+
+    /**
+     * Carries out a player action through its command, and records it for the replay if it went through.
+     * Every in-run action the player takes should go through here.
+     */
+    function dispatch(action: RunAction): commands.CommandResult {
+        let result = execute(action);
+        if (result.ok) recordInput(action);
+        return result;
+    }
+
+    function execute(action: RunAction): commands.CommandResult {
+        switch (action.type) {
+            case "place":
+                return commands.placeBuilding(run, action.loop, action.building);
+            case "upgrade":
+                return commands.upgradeBuilding(run, action.loop, action.upgrade, action.amount);
+            case "sell":
+                return commands.sellBuilding(run, action.loop);
+            case "move":
+                return commands.moveBuilding(run, action.loop, action.to);
+            case "specialize":
+                return commands.specializeBuilding(run, action.loop, action.specialization);
+            case "merge":
+                return commands.mergeBuildings(run, action.loop, action.other);
+            case "speed":
+                return commands.setSpeed(run, action.speed);
+            case "infoUpgrade":
+                return commands.buyInfoUpgrade(run, action.upgrade);
+            case "undo":
+                return commands.undo(run);
+            case "gate":
+                if (!loops.value[action.loop] || !loops.value[action.to]) return { ok: false, error: "notFound" };
+                toggleGate(run, action.loop, action.to);
+                return { ok: true };
+            case "expand":
+                return chooseLoop(run, action.loop) ? { ok: true } : { ok: false, error: "notFound" };
+            case "pause":
+                // Pausing doesn't advance any ticks, so there's nothing to play back
+                return { ok: true };
+        }
+    }
+
+    const undoHotkey = createHotkey(() => ({
+        key: "ctrl+z",
+        description: "Undo the last placement or upgrade",
+        enabled: () => gameState.value == GameState.Started && undoStack.value.length > 0,
+        onPress: () => dispatch({ type: "undo" }),
+    }));
+
+    function saveReplay() {
+        let replay: Replay = {
+            config: runConfig.value,
+            seed: seed.value,
+            resources: startingResources.value,
+            inputs: inputs.value,
+            tick: tick.value,
+            cycle: cycle.value,
+        };
+        replay = JSON.parse(JSON.stringify(replay));
+        replays.value.last = replay;
+        if (cycle.value >= (replays.value[replay.config.mode]?.cycle ?? 0)) {
+            replays.value[replay.config.mode] = replay;
+        }
+    }
+
+    function watchReplay(replay: Replay) {
+        watchedReplay.value = replay;
+        runConfig.value = JSON.parse(JSON.stringify(replay.config));
+        startRun(replay.resources, replay.seed);
+        gameState.value = GameState.Replaying;
+        replaySpeed.value = 1;
+    }
+
+    function endReplay() {
+        outtro();
+        setTimeout(() => {
+            gameState.value = GameState.Idle;
+            watchedReplay.value = null;
+            player.tabs = ["main"];
+            main.intro(2000);
+        }, 1500);
     }
 
     function endGame(breakTime = 3000, endTime = 6000) {
+        if (gameState.value == GameState.Started) {
+            saveReplay();
+        }
         gameState.value = GameState.Stopped;
         gameSpeed.value = 0.1;
 
@@ -231,7 +410,7 @@ const layer = createLayer(id, function (this: BaseLayer) {
         let minPos = { x: 0, y: 0 };
         let maxPos = { x: 0, y: 0 };
         for (let id in loops.value) {
-            let {x, y} = loopIdToPosition(id);
+            let {x, y} = getLoopPosition(run, id);
             minPos.x = Math.min(minPos.x, x); minPos.y = Math.min(minPos.y, y);
             maxPos.x = Math.max(maxPos.x, x); maxPos.y = Math.max(maxPos.y, y);
         }
@@ -272,92 +451,15 @@ const layer = createLayer(id, function (this: BaseLayer) {
         }, endTime);
     }
 
-    function spawnEnemies() {
-
-        let count = 1 + (0.1 * cycle.value) + (0.01 * cycle.value * Math.min(cycle.value, 40));
-        count = Math.floor(count) + (Math.random() < (count % 1) ? 1 : 0);
-        count = Math.max(1, count - Number(main.upgrades.enemyDecrease.amount.value));
-        let loopList = Object.values(loops.value);
-        if (loopList.length <= 0) return;
-        
-        let enemyFactor: number = 1;
-        switch (main.selectedGameMode.value) {
-            case "standard":
-                enemyFactor = 1;
-                break;
-            case "boosted":
-                enemyFactor = 1.5;
-                break;
-            case "hardcore":
-                enemyFactor = 2;
-                break;
-        }
-
-        for (let a = 0; a < count; a++) {
-            let health = 18 * (1 + 0.05 * (cycle.value * enemyFactor) ** enemyFactor) * 1.02 ** cycle.value * (Math.random() * .2 + .9);
-            health *= (1 - main.getCapsuleEffect("health") / 100);
-            loopList[Math.floor(Math.random() * loopList.length)].enemies.push({
-                angle: Math.random(),
-                lifetime: 0,
-                speed: (Math.random() * .4 + .8 + 0.05 * cycle.value * enemyFactor) * (Math.random() < .5 ? 1 : -1),
-                health,
-                maxHealth: health,
-                effects: {},
-                loot: { energy: Decimal.add(25, upgrades.energy.amount.value).toNumber() },
-            });
-        }
-    }
-    
-    function getInfluence(id: string) {
-        let { x, y } = loopIdToPosition(id);
-
-        let flu: Record<string, number> = {};
-
-        for (let [ dx, dy ] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
-            let loop = loops.value[loopPositionToId(x + dx, y + dy)];
-            let f = null;
-            if (loop?.building && (f = buildings[loop.building.type].influences?.(loop.building, loop))) {
-                for (let attr in f) {
-                    flu[attr] = (flu[attr] ?? 1) * f[attr];
-                }
-            }
-        }
-        
-        return flu;
-    }
-
-    function spawnLoop() {
-        let entries = Object.entries(loops.value);
-        let id = "";
-
-        while (entries.length) {
-            let pos = Math.floor(Math.random() * entries.length);
-            let entry = entries[pos];
-            let { x: ex, y: ey } = loopIdToPosition(entry[0]);
-            let poses = [];
-
-            if (!loops.value[loopPositionToId(ex + 1, ey)]) poses.push(loopPositionToId(ex + 1, ey));
-            if (!loops.value[loopPositionToId(ex - 1, ey)]) poses.push(loopPositionToId(ex - 1, ey));
-            if (!loops.value[loopPositionToId(ex, ey + 1)]) poses.push(loopPositionToId(ex, ey + 1));
-            if (!loops.value[loopPositionToId(ex, ey - 1)]) poses.push(loopPositionToId(ex, ey - 1));
-
-            if (poses.length) {
-                id = poses[Math.floor(Math.random() * poses.length)];
-                break;
-            } else {
-                entries.splice(pos, 1);
-            }
-        }
-        
-        loops.value[id] = { enemies: [] };
-    }
-
     globalBus.on("onLoad", () => {
         if (gameState.value == GameState.New) {
             startGame();
             intro(3000);
         } else if (gameState.value == GameState.Stopped) {
             endGame();
+        } else if (gameState.value == GameState.Replaying) {
+            gameState.value = GameState.Idle;
+            player.tabs = ["main"];
         }
     })
 
@@ -365,225 +467,37 @@ const layer = createLayer(id, function (this: BaseLayer) {
         if (gameState.value == GameState.Started) {
             if (gameSpeed.value <= 0 || gamePaused.value) return;
             delta *= gameSpeed.value;
-            lifetime.value += delta;
-            sellCooldown.value -= delta;
-    
-            if (cycle.value >= 1) {
-                cycleProgress.value += delta / (15 + Math.sqrt(cycle.value));
-                if (cycleProgress.value >= 1) {
-                    cycleProgress.value--;
-                    cycle.value++;
-                    spawnEnemies();
-                    if ((cycle.value + 1) % 2 == 0) spawnLoop();
-                }
-            }
-            let hasEnemies = false;
-            let isStucked = true;
-            for (let loop of Object.values(loops.value)) {
-                hasEnemies ||= loop.enemies.length > 0;
-                isStucked &&= !loop.building;
-            }
-            if (!hasEnemies) {
-                cycleProgress.value = 0;
-                cycle.value++;
-                spawnEnemies();
-                if ((cycle.value + 1) % 2 == 0) spawnLoop();
-            }
-            if (isStucked && !gameStucked.value) {
-                for (let b of main.selectedBuildings.value) {
-                    if (buildings[b].class == "damager" && canAffordBuilding(b)) {
-                        isStucked = false;
-                        break;
-                    }
-                }
-                if (isStucked) {
-                    main.objectives.value.stucked = main.objectives.value.stucked ?? 0;
-                    gameStucked.value = true;
-                    setTimeout(() => {
-                        gamePaused.value = false;
-                        endGame();
-                    }, 3000);
-                }
-            }
-            if (Math.floor(resources.energy.value) == 727) {
-                main.objectives.value.wysi = main.objectives.value.wysi ?? 0;
-            }
-    
-            let enemyMoves: {
-                enemy: Enemy;
-                from: string;
-                to: string;
-            }[] = [];
-    
-            stress.value = 0;
-    
-            for (let id in loops.value) {
-                let loop = loops.value[id];
-                let { x, y } = loopIdToPosition(id);
-    
-                for (let enm of loop.enemies) {
-                    let prevAngle = enm.angle;
-
-                    let dist = enm.speed * 0.1 * delta;
-                    if (enm.effects.stun) dist *= 0.0005;
-                    if (enm.effects.freeze) dist *= 0.5;
-                    if (enm.effects.swamped) dist *= 0.5;
-                    if (enm.effects.blaze) dist *= 2;
-                    enm.angle += dist;
-                    enm.lifetime += Math.abs(dist);
-
-                    stress.value += enm.lifetime;
-                    enm.angle = ((enm.angle % 1) + 1) % 1;
-        
-                    let [ min, max ] = [
-                        Math.min(prevAngle, enm.angle),
-                        Math.max(prevAngle, enm.angle),
-                    ];
-    
-                    if (enm.health <= 0) {
-                        loop.enemies.splice(loop.enemies.indexOf(enm), 1);
-                        for (let [id, loot] of Object.entries(enm.loot)) {
-                            resources[id].value = Decimal.add(resources[id].value, loot).toNumber();
-                        }
-                    }
-        
-                    // Bottom (+y)
-                    if (min < .25 && max > .75) {
-                        if (loops.value[loopPositionToId(x, y + 1)] && Math.random() < 0.5) {
-                            enemyMoves.push({
-                                enemy: enm,
-                                from: loopPositionToId(x, y),
-                                to: loopPositionToId(x, y + 1),
-                            });
-                            enm.angle = 0.5 - enm.angle;
-                            enm.speed = -enm.speed;
-                        }
-                    }
-                    // Right (+x)
-                    else if (min < .25 && max > .25) {
-                        if (loops.value[loopPositionToId(x + 1, y)] && Math.random() < 0.5) {
-                            enemyMoves.push({
-                                enemy: enm,
-                                from: loopPositionToId(x, y),
-                                to: loopPositionToId(x + 1, y),
-                            });
-                            enm.angle = 1 - enm.angle;
-                            enm.speed = -enm.speed;
-                        }
-                    }
-                    // Top (-y)
-                    else if (min < .5 && max > .5) {
-                        if (loops.value[loopPositionToId(x, y - 1)] && Math.random() < 0.5) {
-                            enemyMoves.push({
-                                enemy: enm,
-                                from: loopPositionToId(x, y),
-                                to: loopPositionToId(x, y - 1),
-                            });
-                            enm.angle = 0.5 - enm.angle;;
-                            enm.speed = -enm.speed;
-                        }
-                    }
-                    // Left (-x)
-                    else if (min < .75 && max > .75) {
-                        if (loops.value[loopPositionToId(x - 1, y)] && Math.random() < 0.5) {
-                            enemyMoves.push({
-                                enemy: enm,
-                                from: loopPositionToId(x, y),
-                                to: loopPositionToId(x - 1, y),
-                            });
-                            enm.angle = 1 - enm.angle;
-                            enm.speed = -enm.speed;
-                        }
-                    }
-                    
-                    enm.angle = ((enm.angle % 1) + 1) % 1;
-                    
-                    for (let eff in enm.effects) {
-                        enm.effects[eff] -= Math.abs(dist);
-                        if (enm.effects[eff] <= 0) delete enm.effects[eff];
-                    }
-                    if (enm[BoardConnections]) {
-                        for (let from in enm[BoardConnections]) {
-                            enm[BoardConnections][from] -= delta;
-                        }
-                    }
-                }
-    
-                if (loop.building) {
-                    buildings[loop.building.type].onUpdate?.(loop.building, loop, delta, getInfluence(id));
-                }
-            }
-    
-            stress.value /= Object.values(loops.value).length * 10 * Decimal.div(upgrades.stress.amount.value, 100).add(1).toNumber();
-    
-            if (stress.value > 1) {
-                let healthFactor = 1;
-                switch (main.selectedGameMode.value) {
-                    case "standard":
-                        healthFactor = 1;
-                        break;
-                    case "boosted":
-                        healthFactor = 2;
-                        break;
-                    case "hardcore":
-                        healthFactor = 10;
-                        break;
-                }
-                health.value -= (2 ** stress.value) * delta * healthFactor;
-            }
+
+            advance(run, delta);
+            decayConnections(delta);
+
+            // Checked every frame since buildings like Pins vanish, and Energy changes, without an event
+            checkStucked();
+            checkWysi();
             if (stress.value >= 2) {
                 main.objectives.value.anxiety = main.objectives.value.anxiety ?? 0;
             }
             if (health.value <= 0) {
                 endGame();
             }
-            
-            for (let move of enemyMoves) {
-                let from = loops.value[move.from];
-                let to = loops.value[move.to];
 
-                from.enemies.splice(from.enemies.indexOf(move.enemy), 1);
-                to.enemies.push(move.enemy);
-    
-                if (from.building) {
-                    buildings[from.building.type].onEnemyExit?.(from.building, from, move.enemy, getInfluence(move.from));
-                }
-                if (to.building) {
-                    buildings[to.building.type].onEnemyEnter?.(to.building, to, move.enemy, getInfluence(move.to));
-                }
+            if (selectedBuilding.value && !canAffordBuilding(selectedBuilding.value)) {
+                selectedBuilding.value = "";
             }
-    
-            if (selectedBuilding.value) {
-                if (canAffordBuilding(selectedBuilding.value)) {
-                    if (board.selectedNode.value?.type == "loop") {
-                        let loop = (board.selectedNode.value.state as { target: Loop }).target;
-                        if (loop.building) {
-                            unref(board.state).selectedNode = null;
-                        } else {
-                            loop.building = {
-                                type: selectedBuilding.value,
-                                upgrades: {},
-                                data: {},
-                                sellValue: {},
-                            }
-                            for (let [id, cost] of Object.entries(buildings[selectedBuilding.value].baseCost)) {
-                                let realCost = (cost - getBuildingCostReduction(selectedBuilding.value)) * getBuildingCostFactor(selectedBuilding.value);
-                                resources[id].value -= realCost;
-                                loop.building.sellValue[id] = realCost * 0.75;
-                            }
-                            let id = Object.entries(loops.value).find(x => x[1] == loop)?.[0];
-                            if (id) for (let enm of loop.enemies) {
-                                buildings[selectedBuilding.value].onEnemyEnter?.(loop.building as Building, loop, enm, getInfluence(id));
-                            }
-                            buildingFactor.value++;
-                            buildingFactors.value[selectedBuilding.value] = (buildingFactors.value[selectedBuilding.value] ?? 0) + 1;
-                            selectedBuilding.value = "";
-                        }
-                    }
-                } else {
-                    selectedBuilding.value = "";
+        } else if (gameState.value == GameState.Replaying) {
+            let replay = watchedReplay.value;
+            if (!replay || tick.value >= replay.tick || health.value <= 0) return;
+            // Inputs are played back on the ticks they were recorded on, so the recorded game speed doesn't matter
+            delta *= replaySpeed.value;
+
+            let next = replay.inputs.findIndex(input => input.tick >= tick.value);
+            advance(run, Math.min(delta, (replay.tick - tick.value) * tickLength), () => {
+                while (next >= 0 && next < replay!.inputs.length && replay!.inputs[next].tick <= tick.value) {
+                    execute(replay!.inputs[next]);
+                    next++;
                 }
-            }
+            });
+            decayConnections(delta);
         } else if (gameState.value == GameState.Stopped) { 
             for (let id in loops.value) {
                 for (let enm of loops.value[id].enemies) {
@@ -606,6 +520,42 @@ const layer = createLayer(id, function (this: BaseLayer) {
 
     let newBoardID = 0;
 
+    const selectedLoopId = computed(() => {
+        let selected = unref(board.state)?.selectedNode;
+        if (selected == null) return undefined;
+        return Object.entries(loops.value).find(x => x[1][BoardID] == selected)?.[0];
+    });
+
+    function formatMultipliers(multipliers: Record<string, number>) {
+        return Object.values(multipliers).map(x => "×" + format(x, 2)).join(" ");
+    }
+
+    /** The text to show on every loop affected by, or affecting, the selected loop's influences. */
+    const influencePreview = computed(() => {
+        let preview: Record<string, string> = {};
+        let id = selectedLoopId.value;
+        let building = id ? loops.value[id]?.building : undefined;
+        if (!id || !building) return preview;
+
+        let type = buildings[building.type];
+        if (type.influences) {
+            let influence = type.influence ?? defaultInfluence;
+            let attrs = Object.keys(type.influences(building, loops.value[id]));
+            for (let target of getInfluenceArea(run, id, influence.shape)) {
+                let cls = buildings[loops.value[target].building?.type ?? ""]?.class ?? influence.targets?.[0];
+                if (!getInfluenceSources(run, target, cls).includes(id)) continue;
+                let flu = getInfluence(run, target, cls);
+                preview[target] = formatMultipliers(Object.fromEntries(attrs.map(attr => [attr, flu[attr] ?? 1])));
+            }
+        } else {
+            for (let source of getInfluenceSources(run, id)) {
+                let loop = loops.value[source];
+                preview[source] = formatMultipliers(buildings[loop.building!.type].influences!(loop.building!, loop));
+            }
+        }
+        return preview;
+    });
+
     const board = createBoard(() => ({
         startNodes: () => [],
         state() {
@@ -613,9 +563,10 @@ const layer = createLayer(id, function (this: BaseLayer) {
 
             {
                 let enemies: (Enemy & { position: {x: number, y: number }})[] = [];
+                let maxLoopStress = Math.max(...Object.values(loopStress.value), 1e-9);
     
                 for (let [lid, loop] of Object.entries(loops.value)) {
-                    let {x, y} = loopIdToPosition(lid);
+                    let {x, y} = getLoopPosition(run, lid);
                     for (let enemy of loop.enemies) {
                         if (!enemy[BoardID]) {
                             enemy[BoardID] = newBoardID;
@@ -639,7 +590,11 @@ const layer = createLayer(id, function (this: BaseLayer) {
                         id: loop[BoardID] ?? 0,
                         position: { x, y },
                         type: "loop",
-                        state: { target: loop }
+                        state: {
+                            target: loop,
+                            heat: showHeatmap.value ? (loopStress.value[lid] ?? 0) / maxLoopStress : undefined,
+                            preview: influencePreview.value[lid],
+                        }
                     })
                     if (loop.building) {
                         nodes.push({
@@ -652,6 +607,25 @@ const layer = createLayer(id, function (this: BaseLayer) {
                 }
     
                 
+                for (let [index, cell] of (runConfig.value.map?.blocked ?? []).entries()) {
+                    let {x, y} = getLoopPosition(run, cell);
+                    nodes.push({
+                        id: -index - 1,
+                        position: { x: x * 100, y: y * 100 },
+                        type: "blocked",
+                    });
+                }
+
+                for (let [index, cell] of expansionCandidates.value.entries()) {
+                    let {x, y} = getLoopPosition(run, cell);
+                    nodes.push({
+                        id: -index - 1000,
+                        position: { x: x * 100, y: y * 100 },
+                        type: "candidate",
+                        state: { target: cell },
+                    });
+                }
+
                 if (settings.quality >= 1) for (let enm of enemies) {
                     let {x, y} = enm.position;
                     
@@ -684,6 +658,32 @@ const layer = createLayer(id, function (this: BaseLayer) {
         },
         links() {
             let links: BoardNodeLink[] = [];
+            for (let [lid, loop] of Object.entries(loops.value)) {
+                let { x, y } = getLoopPosition(run, lid);
+                for (let other of getNeighbors(run, lid)) {
+                    if (other < lid || !loops.value[other]) continue;
+                    let gate = gates.value[getJunctionId(lid, other)];
+                    let routing = getRouting(run, other) - getRouting(run, lid);
+                    if (!gate && routing == 0) continue;
+
+                    // Enemies flow from the start node towards the end node
+                    let [from, to] = (gate?.to ?? (routing > 0 ? other : lid)) == other ? [lid, other] : [other, lid];
+                    let startNode = board.nodes.value.find(x => x.id == loops.value[from][BoardID]);
+                    let endNode = board.nodes.value.find(x => x.id == loops.value[to][BoardID]);
+                    let { x: ox, y: oy } = getLoopPosition(run, other);
+                    let sign = to == other ? 1 : -1;
+                    let offset = { x: (ox - x) * sign * 35, y: (oy - y) * sign * 35 };
+                    if (startNode && endNode) links.push({
+                        startNode,
+                        endNode,
+                        offsetStart: offset,
+                        offsetEnd: { x: -offset.x, y: -offset.y },
+                        stroke: gate?.mode == "closed" ? "#ff5c5a" : gate ? "#ffdf5c" : "#afefcf",
+                        strokeWidth: gate?.mode == "closed" ? 8 : 4,
+                        class: gate?.mode == "closed" ? "gate" : "gate flowing",
+                    });
+                }
+            }
             if (settings.quality < 2) return links;
             for (let [lid, loop] of Object.entries(loops.value)) {
                 for (let enemy of loop.enemies) {
@@ -705,7 +705,11 @@ const layer = createLayer(id, function (this: BaseLayer) {
             return links;
         },
         classes: { "game-board": true },
-        types,
+        types: {
+            ...types,
+            loop: { ...types.loop, onClick: loopClicked },
+            candidate: { ...types.candidate, onClick: candidateClicked },
+        },
     })) as GenericBoard;
 
     const cycleBar = createBar(() => ({
@@ -725,6 +729,32 @@ const layer = createLayer(id, function (this: BaseLayer) {
         }
     }));
 
+    const boss = computed(() => {
+        for (let loop of Object.values(loops.value)) {
+            let enemy = loop.enemies.find(enemy => enemyTypes[enemy.type ?? "normal"]?.boss);
+            if (enemy) return enemy;
+        }
+        return undefined;
+    });
+
+    const bossBar = createBar(() => ({
+        width: 500,
+        height: 31,
+        direction: Direction.Right,
+        progress: computed(() => boss.value ? boss.value.health / boss.value.maxHealth : 0),
+        display: jsx(() => <span class="bar-label">
+            {enemyTypes[boss.value?.type ?? "normal"]?.name}
+            {boss.value?.phase ? " - Phase " + formatWhole(boss.value.phase + 1) : ""}
+        </span>),
+        fillStyle: computed(() => ({ backgroundColor: enemyTypes[boss.value?.type ?? "normal"]?.color })),
+        baseStyle: { backgroundColor: "#0000001f" },
+        borderStyle: { 
+            border: "none", 
+            borderTop: "2px solid var(--outline)",
+            borderRadius: "0",
+        }
+    }));
+
     const stressBar = createBar(() => ({
         width: 249,
         height: 31,
@@ -746,9 +776,9 @@ const layer = createLayer(id, function (this: BaseLayer) {
         width: 249,
         height: 31,
         direction: Direction.Left,
-        progress: computed(() => health.value / 100),
+        progress: computed(() => health.value / maxHealth),
         display: jsx(() => <span class="bar-label right">
-            HP: {formatWhole(health.value)}%
+            {shield.value >= 1 ? <>🛡️ {formatWhole(shield.value)} · </> : ""}HP: {formatWhole(health.value)}%
         </span>),
         fillStyle: { backgroundColor: "#ff5c5a" },
         baseStyle: { backgroundColor: "#0000001f" },
@@ -763,11 +793,11 @@ const layer = createLayer(id, function (this: BaseLayer) {
     let tooltipTimeout: NodeJS.Timeout = 0 as unknown as NodeJS.Timeout;
 
     let tooltipShown = ref<boolean>(false);
-    let tooltipItem = ref<JSX.Element | string>("");
+    let tooltipItem = ref<JSX.Element | string | (() => JSX.Element)>("");
     let tooltipSide = ref<Direction>(Direction.Default);
     let tooltipStyle = ref<CSSProperties>({});
 
-    function showTooltip(value: JSX.Element | string, target: Element, side: Direction = Direction.Default) {
+    function showTooltip(value: JSX.Element | string | (() => JSX.Element), target: Element, side: Direction = Direction.Default) {
         tooltipItem.value = value;
         tooltipShown.value = true;
         tooltipSide.value = side;
@@ -822,59 +852,77 @@ const layer = createLayer(id, function (this: BaseLayer) {
     }
 
     let selectedBuilding = ref("");
+    const buyModes = [1, 10, "max"] as const;
+    /** How many levels upgrade buttons buy at once. */
+    const buyMode = persistent<typeof buyModes[number]>(1, false);
+
+    /**
+     * Gets how many levels of an upgrade its button buys in the current buy mode, never more than are left before it's maxed.
+     */
+    function getBuyAmount(loopId: string, upgrade: string) {
+        let amount = buyMode.value == "max" ? commands.getMaxAffordableLevels(run, loopId, upgrade) : buyMode.value;
+        return Math.max(Math.min(amount, commands.getRemainingLevels(run, loopId, upgrade)), 1);
+    }
+
+    /** The ID of the loop whose building is waiting for a loop to be moved to. */
+    let movingFrom = ref("");
+    /** The ID of the loop whose building is waiting for a building to be merged with. */
+    let mergingFrom = ref("");
 
     function canAffordBuilding(id: string) {
         if (!buildings[id]) return false;
-        let costFactor = getBuildingCostFactor(id);
-        let costReduction = getBuildingCostReduction(id);
-        for (let [rid, cost] of Object.entries(buildings[id].baseCost)) {
-            if (resources[rid].value < (cost - costReduction) * costFactor) return false;
-        }
-        return true;
+        return Object.entries(commands.getBuildingCost(run, id)).every(([rid, cost]) => resources[rid].value >= cost);
     }
 
-    function canAffordUpgrade(building: Building, id: string) {
-        if (buildings[building.type].upgrades[id].max !== undefined && building.upgrades[id] >= (buildings[building.type].upgrades[id].max ?? 0) - 1) {
-            return false;
-        }
-        for (let [uid, cost] of Object.entries(buildings[building.type].upgrades[id].cost(building.upgrades[id] ?? 0))) {
-            if (resources[uid].value < cost) {
-                return false;
+    function decayConnections(delta: number) {
+        for (let loop of Object.values(loops.value)) {
+            for (let enemy of loop.enemies) {
+                if (enemy[BoardConnections]) {
+                    for (let from in enemy[BoardConnections]) {
+                        enemy[BoardConnections][from] -= delta;
+                    }
+                }
             }
         }
-        return true;
     }
 
-    function buyUpgrade(building: Building, id: string) {
-        if (canAffordUpgrade(building, id)) {
-            for (let [uid, cost] of Object.entries(buildings[building.type].upgrades[id].cost(building.upgrades[id] ?? 0))) {
-                resources[uid].value -= cost;
-                building.sellValue[uid] = (building.sellValue[uid] ?? 0) + cost * 0.5;
-            }
-            building.upgrades[id] = (building.upgrades[id] ?? 0) + 1;
-        }
+    function setPaused(paused: boolean) {
+        recordInput({ type: "pause", paused });
+        gamePaused.value = paused;
     }
 
-    function sellBuilding(loop: Loop) {
-        if (loop.building && loop.building.type != "pins" && sellCooldown.value <= 0) {
-            for (let [uid, val] of Object.entries(loop.building.sellValue)) {
-                resources[uid].value += val;
-                resourcesTotal[uid].value = Decimal.sub(resourcesTotal[uid].value, val).toNumber();
+    function loopClicked(node: BoardNode) {
+        let loopId = Object.entries(loops.value).find(x => x[1] == (node.state as { target: Loop }).target)?.[0];
+        if (gameState.value == GameState.Started && movingFrom.value && loopId) {
+            if (loopId != movingFrom.value) dispatch({ type: "move", loop: movingFrom.value, to: loopId });
+            movingFrom.value = "";
+            return;
+        }
+        if (gameState.value == GameState.Started && mergingFrom.value && loopId) {
+            if (loopId != mergingFrom.value) dispatch({ type: "merge", loop: mergingFrom.value, other: loopId });
+            mergingFrom.value = "";
+            return;
+        }
+        if (gameState.value == GameState.Started && selectedBuilding.value && loopId) {
+            let result = dispatch({ type: "place", loop: loopId, building: selectedBuilding.value });
+            if (!result.ok && result.error == "occupied") {
+                unref(board.state).selectedNode = null;
+                return;
             }
-            buildingFactor.value--;
-            buildingFactors.value[loop.building.type] = (buildingFactors.value[loop.building.type] ?? 0) - 1;
-            delete loop.building;
-            
-            sellCooldown.value = Decimal.mul(main.upgrades.sellCooldown.amount.value, -5).add(60).toNumber();
-
+            selectedBuilding.value = "";
         }
+        unref(board.state).selectedNode = node.id;
     }
 
+    function candidateClicked(node: BoardNode) {
+        if (gameState.value == GameState.Started) {
+            dispatch({ type: "expand", loop: (node.state as { target: string }).target });
+        }
+    }
 
     function buildingItemMouseEnter(e: MouseEvent, building: BuildingType, id: string) {
         tooltipTimeout = setTimeout(() => {
-            let costFactor = getBuildingCostFactor(id);
-            let costReduction = getBuildingCostReduction(id);
+            let buildingCost = commands.getBuildingCost(run, id);
             showTooltip(<>
                 <h3>{building.name}</h3>{" "}
                 <h5 style="display: inline-block; margin: 0"><i>- {building.class.toUpperCase()}</i></h5>
@@ -883,10 +931,10 @@ const layer = createLayer(id, function (this: BaseLayer) {
                 <hr />
                 <h5>BUILDING COST:</h5>
                 <div class="stat-entries">
-                    {Object.entries(building.baseCost).map(([id, cost]) => 
-                        <div class={{red: resources[id].value < cost * costFactor}}>
+                    {Object.entries(buildingCost).map(([id, cost]) => 
+                        <div class={{red: resources[id].value < cost}}>
                             <div class="name">{resources[id].displayName}</div>
-                            <div class="value">{formatWhole((cost - costReduction) * costFactor)}</div>
+                            <div class="value">{formatWhole(cost)}</div>
                         </div>
                     )}  
                 </div>
@@ -909,16 +957,250 @@ const layer = createLayer(id, function (this: BaseLayer) {
         hideTooltip();
     }
 
+    function loopTooltip(id: string) {
+        let loop = loops.value[id];
+        if (!loop) return <></>;
+        let terrain = loop.terrain ? terrains[loop.terrain] : undefined;
+        return <>
+            <h3>{terrain ? terrain.icon + " " + terrain.name : "Plain Loop"}</h3>
+            <br />
+            <i>{terrain?.description ?? "No modifiers."}</i>
+            <hr />
+            <div class="stat-entries">
+                <div>
+                    <div class="name">Building</div>
+                    <div class="value">{loop.building ? getBuildingTier(loop.building)?.name ?? buildings[loop.building.type].name : "None"}</div>
+                </div>
+                <div>
+                    <div class="name">Enemies</div>
+                    <div class="value">{formatWhole(loop.enemies.length)}</div>
+                </div>
+                <div>
+                    <div class="name">Stress</div>
+                    <div class="value">{formatWhole((loopStress.value[id] ?? 0) * 100)}%</div>
+                </div>
+            </div>
+            {loop.building && Object.keys(getInfluence(run, id)).length ? <>
+                <hr />
+                <h5>INFLUENCES:</h5>
+                <div class="stat-entries">
+                    {Object.entries(getInfluence(run, id)).map(([attr, value]) => <div>
+                        <div class="name">{attr[0].toUpperCase() + attr.slice(1)}</div>
+                        <div class="value">×{format(value, 2)}</div>
+                    </div>)}
+                </div>
+            </> : ""}
+        </>;
+    }
+
+    function healthEventCause(cause: string) {
+        if (cause == "stress") return "Stress";
+        if (cause == "regen") return "Regeneration";
+        return buildings[cause] ? buildings[cause].icon + " " + buildings[cause].name : cause;
+    }
+
+    function renderHealthTimeline() {
+        let events = healthEvents.value.slice(-20).reverse();
+        return <div style="width: 75%; margin-top: 10px;">
+            <div class="name">Health timeline:</div>
+            <div class="health-timeline">{events.length ? events.map(event => <div class={{
+                red: event.health < 0,
+                green: event.health > 0,
+                blue: event.health == 0,
+            }}>
+                <div class="time">{formatTime(event.start * tickLength)}</div>
+                <div class="name">{healthEventCause(event.cause)}</div>
+                <div class="value">
+                    {event.shield ? (event.shield > 0 ? "+" : "") + format(event.shield, 1) + " 🛡️ " : ""}
+                    {event.health ? (event.health > 0 ? "+" : "") + format(event.health, 1) + " HP" : ""}
+                </div>
+                <div class="after">{formatWhole(Math.max(event.healthAfter, 0))}%</div>
+            </div>) : "Nothing happened yet."}</div>
+        </div>;
+    }
+
+    const statColumns: { id: string, name: string, value: (stats: BuildingStats) => number, format?: (value: number) => string }[] = [
+        { id: "damage", name: "Damage", value: stats => stats.damage },
+        { id: "kills", name: "Kills", value: stats => stats.kills },
+        { id: "lastHits", name: "Last hits", value: stats => stats.lastHits },
+        { id: "effects", name: "Effects", value: stats => stats.effects },
+        { id: "energy", name: "Energy", value: stats => stats.generated.energy ?? 0 },
+        { id: "info", name: "Info", value: stats => stats.generated.info ?? 0 },
+        { id: "time", name: "Time alive", value: stats => stats.time, format: formatTime },
+    ];
+    const statsSort = ref({ column: "damage", descending: true });
+
+    function formatStat(column: typeof statColumns[number], stats: BuildingStats) {
+        return (column.format ?? formatWhole)(column.value(stats));
+    }
+
+    function buildingStatsTooltip(id: string) {
+        let building = loops.value[id]?.building;
+        if (!building) return <></>;
+        let stats = getBuildingStats(building);
+        let typeStats = buildingStats.value[building.type];
+        return <>
+            <h3>{loopName(id)}</h3>
+            <hr />
+            <h5>THIS BUILDING:</h5>
+            <div class="stat-entries">
+                {statColumns.map(column => <div>
+                    <div class="name">{column.name}</div>
+                    <div class="value">{formatStat(column, stats)}</div>
+                </div>)}
+            </div>
+            {typeStats ? <>
+                <hr />
+                <h5>ALL {buildings[building.type].name.toUpperCase()}S THIS RUN:</h5>
+                <div class="stat-entries">
+                    {statColumns.map(column => <div>
+                        <div class="name">{column.name}</div>
+                        <div class="value">{formatStat(column, typeStats)}</div>
+                    </div>)}
+                </div>
+            </> : ""}
+        </>;
+    }
+
+    function renderBuildingStatsSummary(id: string) {
+        let building = loops.value[id]?.building;
+        if (!building) return "";
+        let stats = getBuildingStats(building);
+        let summary = statColumns.filter(column => column.id != "time" && column.value(stats) > 0).slice(0, 2)
+            .map(column => formatStat(column, stats) + " " + column.name.toLowerCase()).join(" · ");
+        return <span class="building-stats"
+            onMouseenter={e => showTooltip(() => buildingStatsTooltip(id), e.currentTarget as Element, Direction.Up)}
+            onMouseleave={() => showLoopTooltip()}
+        >{summary || "No stats yet"}</span>;
+    }
+
+    function renderBuildingStatsTable() {
+        let column = statColumns.find(column => column.id == statsSort.value.column) ?? statColumns[0];
+        let rows = Object.entries(buildingStats.value)
+            .sort((a, b) => (column.value(a[1]) - column.value(b[1])) * (statsSort.value.descending ? -1 : 1));
+        return <div style="width: 75%; margin-top: 10px;">
+            <div class="name">Building stats:</div>
+            {rows.length ? <table class="building-stats-table">
+                <tr>
+                    <th>Building</th>
+                    {statColumns.map(col => <th class={{ sorted: col == column }} onClick={() => statsSort.value = {
+                        column: col.id,
+                        descending: col == column ? !statsSort.value.descending : true,
+                    }}>
+                        {col.name}{col == column ? statsSort.value.descending ? " ▼" : " ▲" : ""}
+                    </th>)}
+                </tr>
+                {rows.map(([type, stats]) => <tr>
+                    <td>{buildings[type] ? buildings[type].icon + " " + buildings[type].name : type}</td>
+                    {statColumns.map(col => <td>{formatStat(col, stats)}</td>)}
+                </tr>)}
+            </table> : <div>No buildings were placed.</div>}
+        </div>;
+    }
+
+    function stressTooltip() {
+        let topLoops = Object.entries(loopStress.value).filter(([id, value]) => value > 0)
+            .sort((a, b) => b[1] - a[1]).slice(0, 5);
+        let topEnemies = getEnemyStress(run).filter(x => x.stress > 0).slice(0, 5);
+        return <>
+            <h3>Stress: {formatWhole(stress.value * 100)}%</h3>
+            <br />
+            <i>Click to {showHeatmap.value ? "hide" : "show"} the stress heatmap.</i>
+            <hr />
+            <h5>TOP LOOPS:</h5>
+            <div class="stat-entries">
+                {topLoops.length ? topLoops.map(([id, value]) => <div>
+                    <div class="name">{loopName(id)}</div>
+                    <div class="value">{formatWhole(value * 100)}%</div>
+                </div>) : <div><div class="name">None</div></div>}
+            </div>
+            <hr />
+            <h5>TOP ENEMIES:</h5>
+            <div class="stat-entries">
+                {topEnemies.length ? topEnemies.map(({ enemy, loop, stress }) => <div>
+                    <div class="name">{(enemyTypes[enemy.type ?? "normal"]?.name ?? "Enemy") + " @ " + loopName(loop)}</div>
+                    <div class="value">{formatWhole(stress * 100)}%</div>
+                </div>) : <div><div class="name">None</div></div>}
+            </div>
+        </>;
+    }
+
+    function loopName(id: string) {
+        let loop = loops.value[id];
+        let icon = loop?.building ? getBuildingTier(loop.building)?.icon ?? buildings[loop.building.type].icon : undefined;
+        return (icon ? icon + " " : "") + "Loop " + id;
+    }
+
+    function stressBarMouseEnter(e: MouseEvent) {
+        showTooltip(stressTooltip, e.currentTarget as Element, Direction.Down);
+    }
+
+    function stressBarMouseLeave() {
+        showLoopTooltip();
+    }
+
+    function showLoopTooltip() {
+        let node = board.selectedNode.value;
+        let id = Object.entries(loops.value).find(x => node?.type == "loop" && x[1][BoardID] == node.id)?.[0];
+        if (!id) {
+            hideTooltip();
+            return;
+        }
+        nextTick(() => {
+            let target = document.querySelector(".game-board .loop.isSelected");
+            if (target) showTooltip(() => loopTooltip(id!), target, Direction.Up);
+        });
+    }
+
+    watch(() => board.selectedNode.value?.type == "loop" ? board.selectedNode.value.id : null, showLoopTooltip);
+
     function buildingItemClick(e: MouseEvent, building: BuildingType, id: string) {
         clearTimeout(tooltipTimeout);
         hideTooltip();
         if (canAffordBuilding(id)) {
+            movingFrom.value = "";
+            mergingFrom.value = "";
             selectedBuilding.value = selectedBuilding.value == id ? "" : id;
         }
     }
 
     const endGameModalShown = ref<boolean>(false);
 
+    function restartGame(runSeed?: number) {
+        endGame(1000, 0);
+        setTimeout(() => {
+            outtro();
+        }, 1000);
+        setTimeout(() => {
+            loops.value = {}
+        }, 2000);
+        setTimeout(() => {
+            main.points.value = Decimal.add(main.points.value, xpWorth.value).toNumber();
+            endGameModalShown.value = false;
+            intro();
+            startGame(runSeed);
+        }, 2500);
+        gamePaused.value = false;
+    }
+
+    function watchLastReplay() {
+        setTimeout(() => {
+            main.points.value = Decimal.add(main.points.value, xpWorth.value).toNumber();
+            intro();
+            watchReplay(replays.value.last);
+        }, 1000);
+        endGameModalShown.value = false;
+    }
+
+    function replayGame(runSeed?: number) {
+        setTimeout(() => {
+            main.points.value = Decimal.add(main.points.value, xpWorth.value).toNumber();
+            intro();
+            startGame(runSeed);
+        }, 1000);
+        endGameModalShown.value = false;
+    }
+
     return {
         name,
         color: "#afcfef",
@@ -934,12 +1216,20 @@ const layer = createLayer(id, function (this: BaseLayer) {
 
         gameState,
         gameSpeed,
+        seed,
+        rng,
+        tick,
+        tickAccumulator,
         sellCooldown,
+        undoStack,
+        undoHotkey,
+        buyMode,
         upgrades,
 
         loops,
         buildingFactor,
         buildingFactors,
+        nextBuildingId,
 
         resources,
         resourcesTotal,
@@ -949,13 +1239,16 @@ const layer = createLayer(id, function (this: BaseLayer) {
 
         startGame,
         endGame,
+        events: run.events,
+        replays,
+        watchReplay,
 
         display: jsx(() => (
             <>
                 {render(board)}
                 <div class={{
                     "game-top": true,
-                    "hidden": gameState.value != GameState.Started || isAnimating.value || cycle.value <= 0
+                    "hidden": (gameState.value != GameState.Started && gameState.value != GameState.Replaying) || isAnimating.value || cycle.value <= 0
                 }}>
                     <div style="display: flex; height: 31px">
                         <span class="bar-label">
@@ -966,8 +1259,13 @@ const layer = createLayer(id, function (this: BaseLayer) {
                         </span> : ""}
                     </div>
                     {render(cycleBar)}
+                    {boss.value ? render(bossBar) : ""}
                     <div style="display: flex">
-                        {render(stressBar)}
+                        <div class={{ "stress-bar": true, active: showHeatmap.value }}
+                            onClick={() => showHeatmap.value = !showHeatmap.value}
+                            onMouseenter={stressBarMouseEnter}
+                            onMouseleave={stressBarMouseLeave}
+                        >{render(stressBar)}</div>
                         {render(healthBar)}
                     </div>
                 </div>
@@ -976,38 +1274,65 @@ const layer = createLayer(id, function (this: BaseLayer) {
                     "hidden": gameState.value != GameState.Started || isAnimating.value
                 }}>{(() => {
                     let state = (board.selectedNode.value?.state as { target: Loop } | undefined);
+                    let loopId = Object.entries(loops.value).find(x => x[1] == state?.target)?.[0] ?? "";
                     return <>
                         {state ? <div style="display: flex; height: 31px">
                             {state.target.building ? <div class="building-upgrades" style={{
                                 "--layer-color": buildings[state.target.building.type].color
                             }}>
+                                {
+                                    <button class="feature can" style="width: 60px; flex-basis: 60px" onClick={() => 
+                                        buyMode.value = buyModes[(buyModes.indexOf(buyMode.value) + 1) % buyModes.length]
+                                    }>
+                                        Buy
+                                        <hr/>
+                                        {buyMode.value == "max" ? "Max" : "x" + buyMode.value}
+                                    </button>
+                                }
                                 {
                                     Object.entries(buildings[state.target.building.type].upgrades).map(([id, upg]) => {
                                         let level = state?.target.building?.upgrades[id] ?? 0;
-                                        let maxed = buildings[state?.target.building?.type ?? ""].upgrades[id].max !== undefined && 
-                                            level >= (buildings[state?.target.building?.type ?? ""].upgrades[id].max ?? 0) - 1;
+                                        let amount = getBuyAmount(loopId, id);
 
                                         return <button class={{
                                             feature: true,
-                                            can: canAffordUpgrade(state?.target.building as Building, id)
-                                        }} onClick={() => buyUpgrade(state?.target.building as Building, id)}>
-                                            Level {formatWhole(level + 1) + (upg.max ? " / " + formatWhole(upg.max) : "")}<br/>
+                                            can: commands.checkUpgradeBuilding(run, loopId, id, amount).ok
+                                        }} onClick={() => dispatch({ type: "upgrade", loop: loopId, upgrade: id, amount })}>
+                                            Level {formatWhole(level + 1) + (upg.max ? " / " + formatWhole(upg.max) : "")}
+                                            {amount > 1 ? " (+" + formatWhole(amount) + ")" : ""}<br/>
                                             <h3>{upg.name}</h3>
                                             <hr/>
-                                            &uarr; {format(upg.effect(level + 1), upg.precision ?? 0) + (upg.unit ?? "")} &uarr;<br/>
+                                            &uarr; {format(upg.effect(level + amount), upg.precision ?? 0) + (upg.unit ?? "")} &uarr;<br/>
                                             {format(upg.effect(level), upg.precision ?? 0) + (upg.unit ?? "")}<br/>
                                             <hr/>
-                                            {Object.entries(upg.cost(level)).map(([id, cost]) => 
+                                            {Object.entries(commands.getUpgradeCost(run, loopId, id, amount)).map(([id, cost]) => 
                                                 formatWhole(cost) + " " + resources[id].displayName
                                             ).join(", ")}
                                         </button>
                                     })
                                 }
                                 {
-                                    state.target.building.type == "pins" ? "" : <button class={{
+                                    Object.entries(buildings[state.target.building.type].specializations?.choices ?? {}).map(([id, spec]) => {
+                                        let chosen = state?.target.building?.specialization;
+                                        if (chosen && chosen != id) return "";
+                                        if (!chosen && !commands.checkSpecializeBuilding(run, loopId, id).ok) return "";
+
+                                        return <button class={{
+                                            feature: true,
+                                            can: !chosen,
+                                        }} style="width: 160px; flex-basis: 160px" onClick={() => dispatch({ type: "specialize", loop: loopId, specialization: id })}>
+                                            {chosen ? "Specialized" : "Specialize"}<br/>
+                                            <h3>{spec.name}</h3>
+                                            <hr/>
+                                            {spec.description}
+                                        </button>
+                                    })
+                                }
+                                {
+                                    state.target.building.type == "pins" || state.target.building.neutral ? "" : <button class={{
                                         feature: true,
                                         can: sellCooldown.value <= 0,
-                                    }} style="width: 100px; flex-basis: 100px" onClick={() => sellBuilding(state?.target as Loop)}>
+                                    }} style="width: 100px; flex-basis: 100px" onClick={() => dispatch({ type: "sell", loop: loopId })}>
                                         {sellCooldown.value <= 0 ? <>
                                             Sell for
                                             <hr/>
@@ -1021,6 +1346,46 @@ const layer = createLayer(id, function (this: BaseLayer) {
                                         </>}
                                     </button>
                                 }
+                                {
+                                    state.target.building.type == "pins" || state.target.building.neutral ? "" : <button class={{
+                                        feature: true,
+                                        can: Object.entries(commands.getMoveCost(run, loopId)).every(([id, cost]) => resources[id].value >= cost),
+                                    }} style="width: 100px; flex-basis: 100px" onClick={() => {
+                                        movingFrom.value = movingFrom.value == loopId ? "" : loopId;
+                                        mergingFrom.value = "";
+                                        selectedBuilding.value = "";
+                                    }}>
+                                        {movingFrom.value == loopId ? <>
+                                            Moving
+                                            <hr/>
+                                            Select a loop
+                                        </> : <>
+                                            Move for
+                                            <hr/>
+                                            {Object.entries(commands.getMoveCost(run, loopId)).map(([id, cost]) => 
+                                                formatWhole(cost) + " " + resources[id].displayName
+                                            ).join(", ")}
+                                        </>}
+                                    </button>
+                                }
+                                {
+                                    getNeighbors(run, loopId).some(other => commands.checkMergeBuildings(run, loopId, other).ok) ? <button class="feature can" 
+                                        style="width: 100px; flex-basis: 100px" onClick={() => {
+                                            mergingFrom.value = mergingFrom.value == loopId ? "" : loopId;
+                                            movingFrom.value = "";
+                                            selectedBuilding.value = "";
+                                        }}>
+                                        {mergingFrom.value == loopId ? <>
+                                            Merging
+                                            <hr/>
+                                            Select a building
+                                        </> : <>
+                                            Merge into
+                                            <hr/>
+                                            {buildings[state.target.building.type].tiers?.[(state.target.building.tier ?? 1) - 1]?.name}
+                                        </>}
+                                    </button> : ""
+                                }
                                 
                             </div> : <span class="bar-label">
                                 Select a building to build &rarr;
@@ -1033,38 +1398,85 @@ const layer = createLayer(id, function (this: BaseLayer) {
                         <div style="display: flex; height: 31px">
                             <span>
                                 {
+                                    movingFrom.value ? "▲ Select an empty loop to move the building to ▲" :
+                                    mergingFrom.value ? "▲ Select an identical building next to it to merge with ▲" :
+                                    !state && expansionCandidates.value.length ? 
+                                    "▲ Choose where the new loop goes (" + formatTime(Math.max(expansionTimer.value, 0)) + ") ▲" :
                                     !state ? selectedBuilding.value ? "▲ Select a loop to build ▲" : 
                                     "▲ Select a loop from above ▲" :
                                     !state.target.building ? <i>No building</i> : 
-                                    buildings[state.target.building.type].name
+                                    getBuildingTier(state.target.building)?.name ?? buildings[state.target.building.type].name
                                 }
                             </span>
+                            {state?.target.building ? renderBuildingStatsSummary(loopId) : ""}
+                            {state ? <span class="gate-controls">
+                                {getNeighbors(run, loopId).map(other => {
+                                    if (!loops.value[other]) return "";
+                                    let { x, y } = getLoopPosition(run, loopId);
+                                    let { x: ox, y: oy } = getLoopPosition(run, other);
+                                    let arrow = "→↘↓↙←↖↑↗"[Math.round(Math.atan2(oy - y, ox - x) / Math.PI * 4 + 8) % 8];
+                                    let gate = gates.value[getJunctionId(loopId, other)];
+                                    return <button class="feature can" onClick={() => dispatch({ type: "gate", loop: loopId, to: other })}>
+                                        {arrow} {!gate ? "Open" : gate.mode == "closed" ? "Closed" : gate.to == other ? "Out" : "In"}
+                                    </button>
+                                })}
+                            </span> : ""}
                         </div>
                     </>
                 })()}</div>
+                <div class={{
+                    "game-left": true,
+                    "hidden": gameState.value != GameState.Replaying || isAnimating.value
+                }}>
+                    <div class="action-list">
+                        <button class="action" onClick={() => endReplay()}>
+                            <div class="background">
+                                <div class="icon">
+                                     ✕
+                                </div>
+                            </div>
+                        </button>
+                        {[1, 2, 4, 8].map(speed => 
+                            <button class={{ action: true, speed: true, selected: replaySpeed.value == speed }} onClick={() => replaySpeed.value = speed}>
+                                <div class="background">
+                                    <div class="icon">
+                                        {speed}x
+                                    </div>
+                                </div>
+                            </button>
+                        )}
+                    </div>
+                </div>
                 <div class={{
                     "game-left": true,
                     "hidden": gameState.value != GameState.Started || isAnimating.value || cycle.value <= 0
                 }}>
                     <div class="action-list">
-                        <button class="action" onClick={() => gamePaused.value = true}>
+                        <button class="action" onClick={() => setPaused(true)}>
                             <div class="background">
                                 <div class="icon">
                                      ☰
                                 </div>
                             </div>
                         </button>
+                        {undoStack.value.length ? <button class="action" onClick={() => dispatch({ type: "undo" })}>
+                            <div class="background">
+                                <div class="icon">
+                                     ↶
+                                </div>
+                            </div>
+                        </button> : ""}
 
-                        { main.selectedGameMode.value == "hardcore" ? "" : <>
+                        { runConfig.value.maxSpeed === 0 ? "" : <>
                             {Decimal.gte(main.upgrades.speedManip.amount.value, 1) ? <>
-                                <button class="action speed" onClick={() => gameSpeed.value = 0.000001}>
+                                <button class="action speed" onClick={() => dispatch({ type: "speed", speed: 0.000001 })}>
                                     <div class="background">
                                         <div class="icon">
                                             ⏸️
                                         </div>
                                     </div>
                                 </button>
-                                <button class="action speed" onClick={() => gameSpeed.value = 1}>
+                                <button class="action speed" onClick={() => dispatch({ type: "speed", speed: 1 })}>
                                     <div class="background">
                                         <div class="icon">
                                             ▶
@@ -1073,8 +1485,8 @@ const layer = createLayer(id, function (this: BaseLayer) {
                                 </button>
                             </> : ""}
                             {
-                                [...Array(Decimal.sub(main.upgrades.speedManip.amount.value, 1).max(0).toNumber()).keys()].map((x) => 
-                                    <button class="action speed" onClick={() => gameSpeed.value = x + 2}>
+                                [...Array(Decimal.min(main.upgrades.speedManip.amount.value, runConfig.value.maxSpeed ?? Infinity).sub(1).max(0).toNumber()).keys()].map((x) => 
+                                    <button class="action speed" onClick={() => dispatch({ type: "speed", speed: x + 2 })}>
                                         <div class="background">
                                             <div class="icon">
                                                 {x + 2}x
@@ -1126,7 +1538,7 @@ const layer = createLayer(id, function (this: BaseLayer) {
                     top: tooltipSide.value == Direction.Up,
                     bottom: tooltipSide.value == Direction.Down,
                 }} style={tooltipStyle.value}>
-                    {tooltipItem.value}
+                    {typeof tooltipItem.value == "function" ? tooltipItem.value() : tooltipItem.value}
                 </div>
                 <ModalVue
                     modelValue={gamePaused.value}
@@ -1146,6 +1558,10 @@ const layer = createLayer(id, function (this: BaseLayer) {
                                 <div class="name">Relative lifetime</div>
                                 <div class="value">{formatTime(lifetime.value)}</div>
                             </div> 
+                            <div class="result-entry">
+                                <div class="name">Seed</div>
+                                <div class="value">{formatSeed(seed.value)}</div>
+                            </div> 
                             <div style="width: 75%; margin-top: 10px;">
                                 <div class="name">Total resources gained:</div>
                                 <div class="stat-entries">{Object.entries(resourcesTotal)
@@ -1156,30 +1572,23 @@ const layer = createLayer(id, function (this: BaseLayer) {
                                     </div>) || "Nothing :("
                                 }</div>
                             </div> 
+                            {renderHealthTimeline()}
+                            {renderBuildingStatsTable()}
                         </div>,
                         footer: () => (
                             <div style="display: flex; text-align: center; --layer-color: #dadafa">
                                 <button
                                     class="feature can"
-                                    onClick={() => {
-                                        endGame(1000, 0);
-                                        setTimeout(() => {
-                                            outtro();
-                                        }, 1000);
-                                        setTimeout(() => {
-                                            loops.value = {}
-                                        }, 2000);
-                                        setTimeout(() => {
-                                            main.points.value = Decimal.add(main.points.value, xpWorth.value).toNumber();
-                                            endGameModalShown.value = false;
-                                            intro();
-                                            startGame();
-                                        }, 2500);
-                                        gamePaused.value = false;
-                                    }}
+                                    onClick={() => restartGame()}
                                 >
                                     Restart
                                 </button>
+                                <button
+                                    class="feature can"
+                                    onClick={() => restartGame(seed.value)}
+                                >
+                                    Restart Seed
+                                </button>
                                 <button
                                     class="feature can"
                                     onClick={() => {
@@ -1202,9 +1611,7 @@ const layer = createLayer(id, function (this: BaseLayer) {
                                 <div style="flex-grow: 1" />
                                 <button
                                     class="feature can"
-                                    onClick={() => {
-                                        gamePaused.value = false;
-                                    }}
+                                    onClick={() => setPaused(false)}
                                 >
                                     Continue
                                 </button>
@@ -1229,6 +1636,10 @@ const layer = createLayer(id, function (this: BaseLayer) {
                                 <div class="name">Relative lifetime</div>
                                 <div class="value">{formatTime(lifetime.value)}</div>
                             </div> 
+                            <div class="result-entry">
+                                <div class="name">Seed</div>
+                                <div class="value">{formatSeed(seed.value)}</div>
+                            </div> 
                             <div style="width: 75%; margin-top: 10px;">
                                 <div class="name">Total resources gained:</div>
                                 <div class="stat-entries">{Object.entries(resourcesTotal)
@@ -1239,6 +1650,8 @@ const layer = createLayer(id, function (this: BaseLayer) {
                                     </div>) || "Nothing :("
                                 }</div>
                             </div> 
+                            {renderHealthTimeline()}
+                            {renderBuildingStatsTable()}
                             <div style="width: 75%; margin-top: 10px;">
                                 <div class="name">Hub rewards:</div>
                                 <div class="stat-entries">
@@ -1253,17 +1666,22 @@ const layer = createLayer(id, function (this: BaseLayer) {
                             <div style="display: flex; text-align: center; --layer-color: #dadafa">
                                 <button
                                     class="feature can"
-                                    onClick={() => {
-                                        setTimeout(() => {
-                                            main.points.value = Decimal.add(main.points.value, xpWorth.value).toNumber();
-                                            intro();
-                                            startGame();
-                                        }, 1000);
-                                        endGameModalShown.value = false;
-                                    }}
+                                    onClick={() => replayGame()}
                                 >
                                     Replay
                                 </button>
+                                <button
+                                    class="feature can"
+                                    onClick={() => replayGame(seed.value)}
+                                >
+                                    Replay Seed
+                                </button>
+                                <button
+                                    class="feature can"
+                                    onClick={() => watchLastReplay()}
+                                >
+                                    Watch Replay
+                                </button>
                                 <button
                                     class="feature can"
                                     onClick={(e) => {
@@ -22,19 +22,29 @@ import ChangelogVue from "./Changelog.vue";
 import ModalVue from "components/Modal.vue";
 import { Computable } from "util/computed";
 import * as b from "./types/buildings";
-import { BuildingType, CapsuleUpgrade, Objective, SpecialObjective } from "./types/data";
+import { BoardMap, BuildingType, CapsuleUpgrade, ExpansionMode, Objective, SpecialObjective, Topology } from "./types/data";
 import { GenericUpgrade, createUpgrade } from "features/upgrades/upgrade";
 import { createCostRequirement } from "game/requirements";
 import Formula from "game/formulas/formulas";
 import { GenericRepeatable, createRepeatable } from "features/repeatable";
 import layer from "./layers/game";
+import { formatSeed } from "util/random";
+import { getWaveRange, loopIdToPosition, loopPositionToId } from "./simulation";
+import * as t from "./types/topologies";
 
 const buildings = b as { [key: string]: BuildingType };
+const topologies = t as { [key: string]: Topology };
 
 export type GameModeInfo = {
     name: string;
     description: string;
     multiplier: number;
+    /** How new loops are placed. If left out, the player picks it, and random expansion is the default. */
+    expansion?: ExpansionMode;
+    /** The fastest game speed the player can pick, or 0 if they can't change it at all. If left out, it's up to the Speed Manipulation upgrade. */
+    maxSpeed?: number;
+    /** Whether recent placements and upgrades can be undone. */
+    undo: boolean;
 }
 
 enum HubState {
@@ -46,17 +56,22 @@ export let gameModes = {
     standard: {
         name: "Standard",
         description: "The default game mode.\nStandard rules apply.",
-        multiplier: 1
+        multiplier: 1,
+        undo: true,
     },
     boosted: {
         name: "Boosted",
         description: "Harder enemies.\nFaster health drain.",
-        multiplier: 1.5
+        multiplier: 1.5,
+        undo: true,
     },
     hardcore: {
         name: "Hardcore",
-        description: "Hardest enemies.\nNo speed changes.\nStress = Lethal.",
-        multiplier: 2
+        description: "Hardest enemies.\nNo speed changes.\nNo undo.\nStress = Lethal.\nRandom expansion.",
+        multiplier: 2,
+        expansion: "random",
+        maxSpeed: 0,
+        undo: false,
     },
 } as Record<string, GameModeInfo>;
 export let gameModeArray = ["standard", "boosted", "hardcore"];
@@ -80,6 +95,10 @@ export const main = createLayer("main", function (this: BaseLayer) {
     } as Record<string, Persistent<number>>;
 
     let selectedGameMode = persistent<string>("standard", false);
+    let selectedTopology = persistent<string>("square", false);
+    let selectedExpansion = persistent<ExpansionMode>("random", false);
+    let selectedMap = persistent<string>("", false);
+    let maps = persistent<Record<string, BoardMap>>({});
 
     let unlockedBuildings = persistent<Record<string, boolean>>({ 
         beamer: true, 
@@ -194,6 +213,20 @@ export const main = createLayer("main", function (this: BaseLayer) {
             })),
             style: { width: "180px", padding: "0 10px" },
         })),
+        selfRepair: createRepeatable(self => ({
+            display: {
+                title: "Self Repair",
+                description: "Regenerate 0.05 health per second during runs.",
+                effectDisplay: jsx(() => <>{format(Decimal.mul(self.amount.value, 0.05), 2)} HP/s</>),
+                showAmount: false,
+            },
+            limit: 5,
+            requirements: createCostRequirement(() => ({
+                resource: noPersist(points),
+                cost: Formula.variable(self.amount).pow_base(1.8).mul(400),
+            })),
+            style: { width: "180px", padding: "0 10px" },
+        })),
         capsuleGain: createRepeatable(self => ({
             display: {
                 title: "Capsule Productor",
@@ -297,6 +330,8 @@ export const main = createLayer("main", function (this: BaseLayer) {
         bestEnergy: trackBest(gameLayer.resourcesTotal.energy),
         bestInfo: trackBest(gameLayer.resourcesTotal.info),
         bestTime: trackBest(gameLayer.lifetime),
+        bossesDefeated: persistent<number>(0),
+        bestBossCycle: persistent<number>(0),
     }
 
     let objectives = persistent<Record<string, number>>({});
@@ -338,6 +373,7 @@ export const main = createLayer("main", function (this: BaseLayer) {
             exclusiveRewards: {
                 3: ["building", "igniter"],
                 6: ["building", "pagoda"],
+                9: ["building", "shieldGenerator"],
             }
         },
         upgradeCount: {
@@ -408,8 +444,29 @@ export const main = createLayer("main", function (this: BaseLayer) {
             exclusiveRewards: {
                 3: ["building", "tachyon"],
                 6: ["building", "snail"],
+                9: ["building", "repairBay"],
             }
         },
+        bossesDefeated: {
+            name: "Giant Slayer",
+            description: "Defeat {0} bosses.",
+            target: noPersist(stats.bossesDefeated),
+            goal: (x) => 1 + x * 2 + Math.floor(x * x / 4),
+            reward: (x) => ["xp", 30 + x * (x + 1) * (x + 2)],
+            exclusiveRewards: {
+                2: ["building", "beacon"],
+            },
+        },
+        bestBossCycle: {
+            name: "Cycle Breaker",
+            description: "Defeat the boss of Cycle {0}.",
+            target: noPersist(stats.bestBossCycle),
+            goal: (x) => 10 + x * 10,
+            reward: (x) => ["capsules", Math.floor(3 + x / 2)],
+            exclusiveRewards: {
+                2: ["building", "repeller"],
+            },
+        },
         meta: {
             name: "Very Creative Objective",
             description: "Complete {0} Objectives.",
@@ -467,6 +524,12 @@ export const main = createLayer("main", function (this: BaseLayer) {
             formula: (x) => Math.sqrt(x / 10),
             precision: 2,
         },
+        regen: {
+            name: "Repair Core",
+            description: "+{0} HP/s regeneration.",
+            formula: (x) => Math.sqrt(x) / 20,
+            precision: 2,
+        },
         health: {
             name: "Health Core",
             description: "-{0}% enemy health.",
@@ -644,6 +707,118 @@ export const main = createLayer("main", function (this: BaseLayer) {
         },
     })) as GenericBoard;
 
+    const editorRadius = 5;
+    const editedMap = ref<BoardMap | null>(null);
+    const editedMapName = ref("");
+    const editorTool = ref("loop");
+    const editorBuilding = ref("beamer");
+
+    function getEditorCells(map: BoardMap) {
+        let topology = topologies[map.topology] ?? topologies.square;
+        let cells = ["0x0"];
+        let frontier = ["0x0"];
+        for (let depth = 0; depth < editorRadius; depth++) {
+            frontier = frontier.flatMap(id => {
+                let { x, y } = loopIdToPosition(id);
+                return topology.neighbors.map(([dx, dy]) => loopPositionToId(x + dx, y + dy));
+            }).filter((id, index, list) => !cells.includes(id) && list.indexOf(id) == index);
+            cells.push(...frontier);
+        }
+        return cells;
+    }
+
+    function paintCell(id: string) {
+        let map = editedMap.value;
+        if (!map) return;
+        if (editorTool.value == "building") {
+            if (!map.loops.includes(id)) return;
+            if (map.buildings[id] == editorBuilding.value) delete map.buildings[id];
+            else map.buildings[id] = editorBuilding.value;
+            return;
+        }
+        let painted = {
+            loop: map.loops,
+            blocked: map.blocked,
+            spawn: map.spawnOrder,
+        }[editorTool.value]?.includes(id);
+        map.loops = map.loops.filter(cell => cell != id);
+        map.blocked = map.blocked.filter(cell => cell != id);
+        map.spawnOrder = map.spawnOrder.filter(cell => cell != id);
+        delete map.buildings[id];
+        if (painted) return;
+        if (editorTool.value == "loop") map.loops.push(id);
+        else if (editorTool.value == "blocked") map.blocked.push(id);
+        else if (editorTool.value == "spawn") map.spawnOrder.push(id);
+    }
+
+    const mapEditor = createBoard(() => ({
+        startNodes: () => [],
+        state() {
+            let map = editedMap.value;
+            let topology = topologies[map?.topology ?? "square"] ?? topologies.square;
+            let nodes: BoardNode[] = map ? getEditorCells(map).map((id, index) => {
+                let { x, y } = loopIdToPosition(id);
+                let position = topology.position(x, y);
+                return {
+                    id: index, type: "cell",
+                    position: { x: position.x * 100, y: position.y * 100 },
+                    state: { id },
+                };
+            }) : [];
+
+            return {
+                nodes,
+                selectedNode: null,
+                selectedAction: null,
+            }
+        },
+        classes: { "hub-board": true, "map-editor": true },
+        types: {
+            cell: {
+                shape: node => editedMap.value?.blocked.includes((node.state as { id: string }).id) ? Shape.Square : Shape.Circle,
+                size: node => editedMap.value?.blocked.includes((node.state as { id: string }).id) ? 35 : 50,
+                title: node => {
+                    let id = (node.state as { id: string }).id;
+                    let map = editedMap.value;
+                    if (map?.buildings[id]) return buildings[map.buildings[id]]?.icon ?? "";
+                    if (map?.spawnOrder.includes(id)) return "#" + (map.spawnOrder.indexOf(id) + 1);
+                    return "";
+                },
+                classes: node => {
+                    let id = (node.state as { id: string }).id;
+                    return {
+                        cell: true,
+                        loop: !!editedMap.value?.loops.includes(id),
+                        blocked: !!editedMap.value?.blocked.includes(id),
+                        spawn: !!editedMap.value?.spawnOrder.includes(id),
+                    };
+                },
+                onClick(node) {
+                    paintCell((node.state as { id: string }).id);
+                },
+            },
+        },
+    })) as GenericBoard;
+
+    function editMap(map: BoardMap) {
+        editedMap.value = JSON.parse(JSON.stringify(map));
+        editedMapName.value = map.name;
+        editorTool.value = "loop";
+        hubModalOpen.value = false;
+    }
+
+    function saveMap() {
+        let map = editedMap.value;
+        if (!map || !map.name || !map.loops.length) return;
+        if (editedMapName.value && editedMapName.value != map.name) {
+            delete maps.value[editedMapName.value];
+            if (selectedMap.value == editedMapName.value) selectedMap.value = map.name;
+        }
+        maps.value[map.name] = JSON.parse(JSON.stringify(map));
+        editedMap.value = null;
+        showMapsModal();
+    }
+
     function showGameModal() {
         hubModalHeader.value = <>
             <h1 class="result-title">NEW GAME</h1>
@@ -688,6 +863,42 @@ export const main = createLayer("main", function (this: BaseLayer) {
                         <h1>{formatWhole(bestCycle[next].value)}</h1>
                     </button>
                 </div>
+                <div class="wave-preview">
+                    {[10, 25, 50].map(cycle => {
+                        let range = getWaveRange(selectedGameMode.value, cycle);
+                        return <div>
+                            Cycle {cycle}: ~{format(range.count(cycle), 1)} enemies,
+                            ~{formatWhole(range.health(cycle))} HP
+                        </div>
+                    })}
+                </div>
+                <div class="topology-select">
+                    Map:
+                    {[["", "Random"], ...Object.keys(maps.value).map(id => [id, id])].map(([id, name]) => 
+                        <button class={{ feature: true, can: true, selected: (maps.value[selectedMap.value] ? selectedMap.value : "") == id }} 
+                            onClick={() => selectedMap.value = id}>
+                            {name}
+                        </button>
+                    )}
+                </div>
+                {maps.value[selectedMap.value] ? "" : <div class="topology-select">
+                    Board:
+                    {Object.entries(topologies).map(([id, topology]) => 
+                        <button class={{ feature: true, can: true, selected: selectedTopology.value == id }} 
+                            onClick={() => selectedTopology.value = id}>
+                            {topology.name}
+                        </button>
+                    )}
+                </div>}
+                {gameModes[selectedGameMode.value].expansion ? "" : <div class="topology-select">
+                    Expansion:
+                    {([["random", "Random"], ["choice", "Choose"]] as [ExpansionMode, string][]).map(([id, name]) => 
+                        <button class={{ feature: true, can: true, selected: selectedExpansion.value == id }} 
+                            onClick={() => selectedExpansion.value = id}>
+                            {name}
+                        </button>
+                    )}
+                </div>}
             </>
         };
         hubModalFooter.value = (
@@ -700,6 +911,22 @@ export const main = createLayer("main", function (this: BaseLayer) {
                 >
                     Back
                 </button>
+                <button
+                    class="feature can"
+                    onClick={() => {
+                        showReplayModal()
+                    }}
+                >
+                    Replays
+                </button>
+                <button
+                    class="feature can"
+                    onClick={() => {
+                        showMapsModal()
+                    }}
+                >
+                    Maps
+                </button>
                 <div style="flex-grow: 1" />
                 <button
                     class="feature can"
@@ -713,7 +940,117 @@ export const main = createLayer("main", function (this: BaseLayer) {
         )
         hubModalOpen.value = true;
     }
+
+    function showReplayModal() {
+        hubModalHeader.value = <>
+            <h1 class="result-title">REPLAYS</h1>
+            <h2 style="font-style: italic;">
+                - Study your past runs. -
+            </h2>
+        </>;
+        hubModalContent.value = () => {
+            let entries = Object.entries(gameLayer.replays.value);
+            return <div style="text-align: center">
+                {entries.length ? entries.map(([id, replay]) => <div class="result-entry">
+                    <div class="name">
+                        {id == "last" ? "Last run" : "Best run"} - {gameModes[replay.config.mode]?.name ?? replay.config.mode}
+                        <br/>Seed {formatSeed(replay.seed)}
+                    </div>
+                    <h1 class="value">{formatWhole(replay.cycle)}</h1>
+                    <button
+                        class="feature can"
+                        style="--layer-color: #dadafa"
+                        onClick={() => {
+                            hubModalOpen.value = false;
+                            outtro(1500);
+                            hubState.value = HubState.Transitioning;
+                            setTimeout(() => {
+                                player.tabs = ["game"];
+                                gameLayer.watchReplay(replay);
+                                gameLayer.intro(2000);
+                                hubState.value = HubState.Idle;
+                            }, 2000);
+                        }}
+                    >
+                        Watch
+                    </button>
+                </div>) : <i>Finish a run to record its replay.</i>}
+            </div>
+        };
+        hubModalFooter.value = (
+            <div style="display: flex; text-align: center; --layer-color: #dadafa">
+                <div style="flex-grow: 1" />
+                <button
+                    class="feature can"
+                    onClick={() => {
+                        showGameModal();
+                    }}
+                >
+                    Back
+                </button>
+            </div>
+        )
+    }
     
+    function showMapsModal() {
+        hubModalHeader.value = <>
+            <h1 class="result-title">MAPS</h1>
+            <h2 style="font-style: italic;">
+                - Craft your own starting layouts. -
+            </h2>
+        </>;
+        hubModalContent.value = () => {
+            let entries = Object.entries(maps.value);
+            return <div style="text-align: center">
+                {entries.length ? entries.map(([id, map]) => <div class="result-entry">
+                    <div class="name">
+                        {map.name}
+                        <br/>{topologies[map.topology]?.name ?? map.topology} - {formatWhole(map.loops.length)} loops
+                    </div>
+                    <button class="feature can" style="--layer-color: #dadafa" onClick={() => editMap(map)}>
+                        Edit
+                    </button>
+                    <button class="feature can" style="--layer-color: #efafaf" onClick={() => {
+                        delete maps.value[id];
+                        if (selectedMap.value == id) selectedMap.value = "";
+                    }}>
+                        Delete
+                    </button>
+                </div>) : <i>Create a map to start your runs from it.</i>}
+            </div>
+        };
+        hubModalFooter.value = (
+            <div style="display: flex; text-align: center; --layer-color: #dadafa">
+                <button
+                    class="feature can"
+                    onClick={() => {
+                        editMap({
+                            name: "Map " + (Object.keys(maps.value).length + 1),
+                            topology: selectedTopology.value,
+                            loops: ["0x0"],
+                            blocked: [],
+                            buildings: {},
+                            spawnOrder: [],
+                        });
+                        editedMapName.value = "";
+                    }}
+                >
+                    New map
+                </button>
+                <div style="flex-grow: 1" />
+                <button
+                    class="feature can"
+                    onClick={() => {
+                        showGameModal();
+                    }}
+                >
+                    Back
+                </button>
+            </div>
+        )
+        hubModalOpen.value = true;
+    }
+
     function showEquipModal() {
         let slots = Decimal.add(upgrades.maxBuildings.amount.value, 6).toNumber();
         let maxCost = Decimal.mul(upgrades.startEnergy.amount.value, 25).add(100).toNumber();
@@ -1380,6 +1717,10 @@ export const main = createLayer("main", function (this: BaseLayer) {
 
         hubState,
         selectedGameMode,
+        selectedTopology,
+        selectedExpansion,
+        selectedMap,
+        maps,
 
         unlockedBuildings,
         selectedBuildings,
@@ -1395,7 +1736,39 @@ export const main = createLayer("main", function (this: BaseLayer) {
 
         display: jsx(() => (
             <>
-                {render(board)}
+                {editedMap.value ? render(mapEditor) : render(board)}
+                {editedMap.value ? <div class="map-editor-tools">
+                    <input
+                        class="map-name"
+                        value={editedMap.value.name}
+                        onInput={(e: Event) => editedMap.value!.name = (e.target as HTMLInputElement).value}
+                    />
+                    {[["loop", "◯ Loop"], ["blocked", "■ Blocked"], ["building", "🏗️ Building"], ["spawn", "# Spawn order"], ["erase", "✕ Erase"]].map(([id, name]) => 
+                        <button class={{ feature: true, can: true, selected: editorTool.value == id }} onClick={() => editorTool.value = id}>
+                            {name}
+                        </button>
+                    )}
+                    {editorTool.value == "building" ? <select
+                        value={editorBuilding.value}
+                        onChange={(e: Event) => editorBuilding.value = (e.target as HTMLSelectElement).value}
+                    >
+                        {Object.keys(unlockedBuildings.value).filter(id => unlockedBuildings.value[id]).map(id => <option value={id}>{buildings[id].icon} {buildings[id].name}</option>)}
+                    </select> : ""}
+                    {Object.entries(topologies).map(([id, topology]) => 
+                        <button class={{ feature: true, can: true, selected: editedMap.value?.topology == id }} onClick={() => editedMap.value!.topology = id}>
+                            {topology.name}
+                        </button>
+                    )}
+                    <button class={{ feature: true, can: !!editedMap.value.name && editedMap.value.loops.length > 0 }} onClick={saveMap}>
+                        Save
+                    </button>
+                    <button class="feature can" onClick={() => {
+                        editedMap.value = null;
+                        showMapsModal();
+                    }}>
+                        Cancel
+                    </button>
+                </div> : ""}
                 <div class={{
                     "game-top": true,
                     "hidden": hubState.value == HubState.Transitioning || isAnimating.value,
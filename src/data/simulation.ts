@@ -0,0 +1,784 @@
+/**
+ * The run simulation. Owns every gameplay rule of a run and operates on a plain {@link RunState},
+ * so it can be driven by the game layer as well as headlessly (e.g. from tests).
+ * @module
+ * @hidden
+ */
+import Decimal from "util/break_eternity";
+import { createSeed, random } from "util/random";
+import { createRunEvents } from "./events";
+import { damageRun, healRun, maxHealth } from "./health";
+import { addBuildingStats, createBuildingStats, recordBuildingStat } from "./stats";
+import { getEffectMultiplier } from "./types/buildingHelper";
+import * as b from "./types/buildings";
+import { Building, BuildingClass, BuildingType, Enemy, EnemyType, Influence, InfluenceShape, InfluenceStacking, Loop, LoopTerrain, RunConfig, RunState, StatusEffect, Topology, WaveDefinition } from "./types/data";
+import * as e from "./types/effects";
+import * as en from "./types/enemies";
+import * as tr from "./types/terrains";
+import * as t from "./types/topologies";
+import * as w from "./types/waves";
+
+const buildings = b as { [key: string]: BuildingType };
+const effects = e as { [key: string]: StatusEffect };
+const enemyTypes = en as { [key: string]: EnemyType };
+const terrains = tr as { [key: string]: LoopTerrain };
+const topologies = t as { [key: string]: Topology };
+const waves = w as { [key: string]: WaveDefinition };
+
+/** The length of one simulation tick, in seconds of game time. */
+export const tickLength = 1 / 60;
+
+/** Every cycle that is a multiple of this spawns a boss. */
+export const bossInterval = 10;
+
+/** The chance of a newly spawned loop rolling a terrain. */
+export const terrainChance = 0.35;
+
+/** How long the player has to choose where a new loop goes, in seconds of game time. */
+export const expansionTimeout = 10;
+
+export function loopIdToPosition(id: string) {
+    let [x, y] = id.split("x");
+    return { x: +x, y: +y };
+}
+
+export function loopPositionToId(x: number, y: number) {
+    return x + "x" + y;
+}
+
+/**
+ * Gets the topology a run's board is laid out in. Runs that don't specify one use the square grid.
+ */
+export function getTopology(state: RunState) {
+    return topologies[state.config.topology ?? "square"] ?? topologies.square;
+}
+
+/**
+ * Gets the IDs of every loop that can be adjacent to a loop, whether it exists yet or not.
+ * They're in the same order as the topology's junctions.
+ */
+export function getNeighbors(state: RunState, id: string) {
+    let { x, y } = loopIdToPosition(id);
+    return getTopology(state).neighbors.map(([dx, dy]) => loopPositionToId(x + dx, y + dy));
+}
+
+/**
+ * Gets the position of a loop on the board, in loop widths.
+ */
+export function getLoopPosition(state: RunState, id: string) {
+    let { x, y } = loopIdToPosition(id);
+    return getTopology(state).position(x, y);
+}
+
+export function createRunState(config: RunConfig, resources: { [key: string]: number } = {}, seed = createSeed()): RunState {
+    let state = {
+        config,
+        seed: 0,
+        rng: 0,
+        tick: 0,
+        accumulator: 0,
+        loops: {},
+        gates: {},
+        resources: { energy: 0, info: 0 },
+        upgrades: { stress: 0, energy: 0 },
+        cycle: 0,
+        cycleProgress: 0,
+        health: 0,
+        shield: 0,
+        healthEvents: [],
+        buildingStats: {},
+        stress: 0,
+        loopStress: {},
+        lifetime: 0,
+        sellCooldown: 0,
+        buildingFactor: 0,
+        buildingFactors: {},
+        nextBuildingId: 0,
+        speed: 0,
+        undoStack: [],
+        expansionCandidates: [],
+        expansionTimer: 0,
+        events: createRunEvents(),
+    } as RunState;
+    resetRun(state, resources, seed);
+    return state;
+}
+
+export function resetRun(state: RunState, resources: { [key: string]: number } = {}, seed = createSeed()) {
+    state.seed = seed;
+    state.rng = seed;
+    state.tick = 0;
+    state.accumulator = 0;
+    state.cycle = 0;
+    state.cycleProgress = 0;
+    state.health = maxHealth;
+    state.shield = 0;
+    state.healthEvents = [];
+    state.buildingStats = {};
+    state.stress = 0;
+    state.loopStress = {};
+    state.lifetime = 0;
+    state.sellCooldown = 0;
+    state.buildingFactor = 0;
+    state.buildingFactors = {};
+    state.nextBuildingId = 0;
+    state.speed = 1;
+    state.undoStack = [];
+    state.expansionCandidates = [];
+    state.expansionTimer = 0;
+
+    for (let id in state.resources) {
+        state.resources[id] = resources[id] ?? 0;
+    }
+    for (let id in state.upgrades) {
+        state.upgrades[id] = 0;
+    }
+
+    let map = state.config.map;
+    let start = !map || map.loops.includes("0x0") ? "0x0" : map.loops[0];
+    state.gates = {};
+    state.loops = Object.fromEntries((map?.loops ?? [start]).map(id => [id, { enemies: [] }]));
+    state.loops[start].enemies.push({
+        type: "normal",
+        angle: 0,
+        lifetime: 0,
+        speed: Number.EPSILON,
+        health: 20,
+        maxHealth: 20,
+        effects: {},
+        loot: { energy: 100 },
+    });
+    for (let [id, type] of Object.entries(map?.buildings ?? {})) {
+        if (state.loops[id] && buildings[type]) placeBuilding(state, id, type).neutral = true;
+    }
+}
+
+function chooseWeighted(state: RunState, weights: [string, number][]) {
+    let roll = random(state) * weights.reduce((total, [id, weight]) => total + weight, 0);
+    for (let [id, weight] of weights) {
+        roll -= weight;
+        if (roll < 0) return id;
+    }
+    return "normal";
+}
+
+/**
+ * Picks a random enemy type out of the ones that can spawn on the current cycle, weighted by their spawn weight.
+ * Harder game modes reach each type earlier.
+ */
+export function chooseEnemyType(state: RunState, enemyFactor = 1, boss = false) {
+    let types = Object.entries(enemyTypes).filter(([id, type]) => !!type.boss == boss && type.minCycle <= state.cycle * enemyFactor);
+    return chooseWeighted(state, types.map(([id, type]) => [id, type.weight]));
+}
+
+/**
+ * Gets the wave range of a game mode that applies to the given cycle.
+ * Unknown game modes use the standard waves.
+ */
+export function getWaveRange(mode: string, cycle: number) {
+    let definition = waves[mode] ?? waves.standard;
+    return definition.reduce((current, range) => range.from <= cycle ? range : current, definition[0]);
+}
+
+/**
+ * Spawns an enemy of the given type on a loop, scaled to the current cycle.
+ */
+export function spawnEnemy(state: RunState, type: string, id: string) {
+    let range = getWaveRange(state.config.mode, state.cycle);
+    let enemyType = enemyTypes[type];
+    let health = range.health(state.cycle) * (random(state) * .2 + .9);
+    health *= (1 - state.config.enemyHealthReduction / 100) * (enemyType.health ?? 1);
+    let enemy: Enemy = {
+        type,
+        angle: random(state),
+        lifetime: 0,
+        speed: (random(state) * .4 - .2 + range.speed(state.cycle)) * (random(state) < .5 ? 1 : -1) * (enemyType.speed ?? 1),
+        health,
+        maxHealth: health,
+        effects: {},
+        loot: { energy: (25 + state.upgrades.energy) * (enemyType.loot ?? 1) },
+    };
+    if (enemyType.resistances) enemy.resistances = { ...enemyType.resistances };
+    state.loops[id].enemies.push(enemy);
+    enemyType.onSpawn?.(enemy, state.loops[id], state);
+    state.events.emit("enemySpawned", enemy, id);
+    return enemy;
+}
+
+export function spawnEnemies(state: RunState) {
+    let range = getWaveRange(state.config.mode, state.cycle);
+
+    let count = range.count(state.cycle);
+    count = Math.floor(count) + (random(state) < (count % 1) ? 1 : 0);
+    count = Math.max(1, count - state.config.enemyDecrease);
+    let loopList = Object.keys(state.loops);
+    if (loopList.length <= 0) return;
+
+    for (let a = 0; a < count; a++) {
+        let type = range.enemies
+            ? chooseWeighted(state, Object.entries(range.enemies))
+            : chooseEnemyType(state, range.unlockRate);
+        spawnEnemy(state, type, loopList[Math.floor(random(state) * loopList.length)]);
+    }
+}
+
+export function spawnBoss(state: RunState) {
+    let loopList = Object.keys(state.loops);
+    if (loopList.length <= 0) return;
+    let type = chooseEnemyType(state, getWaveRange(state.config.mode, state.cycle).unlockRate, true);
+    let boss = spawnEnemy(state, type, loopList[Math.floor(random(state) * loopList.length)]);
+    boss.cycle = state.cycle;
+    return boss;
+}
+
+/**
+ * Moves a boss into its next phase, applying that phase's speed burst, effect cleansing and minions.
+ * Minions are spread over the loops adjacent to the boss, or put on its own loop if there are none.
+ */
+function advancePhase(state: RunState, enemy: Enemy, id: string) {
+    let phase = enemyTypes[enemy.type ?? "normal"].phases![enemy.phase ?? 0];
+    enemy.phase = (enemy.phase ?? 0) + 1;
+
+    enemy.speed *= phase.speed ?? 1;
+    if (phase.cleanse) enemy.effects = {};
+
+    let targets = getNeighbors(state, id).filter(target => state.loops[target]);
+    if (!targets.length) targets = [id];
+    for (let a = 0; a < (phase.minions ?? 0); a++) {
+        spawnEnemy(state, "normal", targets[a % targets.length]);
+    }
+
+    state.events.emit("bossPhaseChanged", enemy, enemy.phase);
+}
+
+/**
+ * Gets the ID of the junction between two adjacent loops, which is the same in both directions.
+ */
+export function getJunctionId(a: string, b: string) {
+    return a < b ? a + "|" + b : b + "|" + a;
+}
+
+/**
+ * Cycles the gate on the junction between two adjacent loops from open to closed,
+ * then to one-way towards `to`, then to one-way towards `from`, and back to open.
+ */
+export function toggleGate(state: RunState, from: string, to: string) {
+    let id = getJunctionId(from, to);
+    let gate = state.gates[id];
+    if (!gate) {
+        state.gates[id] = { mode: "closed" };
+    } else if (gate.mode == "closed") {
+        state.gates[id] = { mode: "oneway", to };
+    } else if (gate.to == to) {
+        state.gates[id] = { mode: "oneway", to: from };
+    } else {
+        delete state.gates[id];
+    }
+}
+
+/**
+ * Gets how much the building on a loop biases enemies towards crossing into it.
+ * Negative values push enemies away instead.
+ */
+export function getRouting(state: RunState, id: string) {
+    let loop = state.loops[id];
+    if (!loop?.building) return 0;
+    return buildings[loop.building.type].routing?.(loop.building, loop) ?? 0;
+}
+
+/**
+ * Gets the chance of an enemy crossing from one loop to an adjacent one when it reaches their junction.
+ * Gates can block the crossing entirely, otherwise routers on either loop bias the even odds.
+ */
+export function getCrossChance(state: RunState, from: string, to: string) {
+    let gate = state.gates[getJunctionId(from, to)];
+    if (gate && (gate.mode == "closed" || gate.to != to)) return 0;
+    return Math.min(Math.max(0.5 + getRouting(state, to) - getRouting(state, from), 0), 1);
+}
+
+function getStressFactor(state: RunState) {
+    return 1 / (Object.values(state.loops).length * 10 * (1 + state.upgrades.stress / 100));
+}
+
+/**
+ * Gets how much stress each enemy is currently causing, in the same units as the run's stress, highest first.
+ */
+export function getEnemyStress(state: RunState) {
+    let stressFactor = getStressFactor(state);
+    return Object.entries(state.loops).flatMap(([id, loop]) => loop.enemies.map(enemy => ({
+        enemy,
+        loop: id,
+        stress: enemy.lifetime * (terrains[loop.terrain ?? ""]?.stress ?? 1) * stressFactor,
+    }))).sort((a, b) => b.stress - a.stress);
+}
+
+/** The influence of influencers that don't declare their own. */
+export const defaultInfluence: Influence = { shape: { type: "adjacent" }, stacking: "multiply" };
+
+/**
+ * Gets the IDs of every existing loop an influence shape covers around a loop.
+ */
+export function getInfluenceArea(state: RunState, id: string, shape: InfluenceShape) {
+    let { x, y } = loopIdToPosition(id);
+    let directions = getTopology(state).neighbors;
+    let area: string[] = [];
+
+    switch (shape.type) {
+        case "adjacent":
+            area = getNeighbors(state, id);
+            break;
+        case "diagonal":
+            area = directions.map(([dx, dy], index) => {
+                let [nx, ny] = directions[(index + 1) % directions.length];
+                return loopPositionToId(x + dx + nx, y + dy + ny);
+            });
+            break;
+        case "radius": {
+            let distances: Record<string, number> = { [id]: 0 };
+            let queue = [id];
+            while (queue.length) {
+                let current = queue.shift()!;
+                if (distances[current] >= shape.radius) continue;
+                for (let neighbor of getNeighbors(state, current)) {
+                    if (distances[neighbor] !== undefined) continue;
+                    distances[neighbor] = distances[current] + 1;
+                    queue.push(neighbor);
+                }
+            }
+            area = Object.keys(distances).filter(cell => cell != id);
+            break;
+        }
+        case "line":
+            area = Object.keys(state.loops).filter(cell => {
+                let other = loopIdToPosition(cell);
+                let [ox, oy] = [other.x - x, other.y - y];
+                return directions.some(([dx, dy]) => ox * dy == oy * dx && ox * dx + oy * dy > 0);
+            });
+            break;
+    }
+
+    return area.filter(cell => state.loops[cell]);
+}
+
+/**
+ * The loops every loop is covered by the influence area of, by loop ID.
+ * Rebuilt at most once per tick, or when buildings or loops change.
+ */
+const influenceAreas = new WeakMap<RunState, { tick: number, loops: Record<string, Loop>, sources: Record<string, string[]> }>();
+
+function clearInfluenceAreas(state: RunState) {
+    influenceAreas.delete(state);
+}
+
+function getInfluenceAreas(state: RunState) {
+    let cached = influenceAreas.get(state);
+    if (cached && cached.tick == state.tick && cached.loops == state.loops) return cached.sources;
+
+    let sources: Record<string, string[]> = {};
+    for (let [source, loop] of Object.entries(state.loops)) {
+        let type = buildings[loop.building?.type ?? ""];
+        if (!type?.influences) continue;
+        for (let target of getInfluenceArea(state, source, (type.influence ?? defaultInfluence).shape)) {
+            if (target == source) continue;
+            (sources[target] = sources[target] ?? []).push(source);
+        }
+    }
+    influenceAreas.set(state, { tick: state.tick, loops: state.loops, sources });
+    return sources;
+}
+
+/**
+ * Gets the IDs of every loop with an influencer affecting a loop.
+ * @param targetClass The class of building to check for. Defaults to the class of the building on the loop.
+ */
+export function getInfluenceSources(state: RunState, id: string, targetClass?: BuildingClass) {
+    if (terrains[state.loops[id]?.terrain ?? ""]?.blocksInfluence) return [];
+    let cls = targetClass ?? buildings[state.loops[id]?.building?.type ?? ""]?.class;
+
+    return (getInfluenceAreas(state)[id] ?? []).filter(source => {
+        let type = buildings[state.loops[source].building?.type ?? ""];
+        if (!type?.influences) return false;
+        let influence = type.influence ?? defaultInfluence;
+        return !influence.targets || (cls != undefined && influence.targets.includes(cls));
+    });
+}
+
+/**
+ * Gets the multipliers every influencer affecting a loop applies to the building on it, combined by their stacking modes and capped.
+ * @param targetClass The class of building to get the multipliers for. Defaults to the class of the building on the loop.
+ */
+export function getInfluence(state: RunState, id: string, targetClass?: BuildingClass) {
+    let groups: Record<string, Record<InfluenceStacking, number[]>> = {};
+    let caps: Record<string, number> = {};
+
+    for (let source of getInfluenceSources(state, id, targetClass)) {
+        let loop = state.loops[source];
+        let type = buildings[loop.building!.type];
+        let influence = type.influence ?? defaultInfluence;
+        let f = type.influences!(loop.building!, loop);
+        for (let attr in f) {
+            groups[attr] = groups[attr] ?? { multiply: [], add: [], max: [] };
+            groups[attr][influence.stacking].push(f[attr]);
+            if (influence.cap !== undefined) caps[attr] = Math.min(caps[attr] ?? Infinity, influence.cap);
+        }
+    }
+
+    let flu: Record<string, number> = {};
+    for (let attr in groups) {
+        let { multiply, add, max } = groups[attr];
+        flu[attr] = multiply.reduce((total, x) => total * x, 1)
+            * add.reduce((total, x) => total + x - 1, 1)
+            * Math.max(...max, 1);
+        if (caps[attr] !== undefined) flu[attr] = Math.min(flu[attr], caps[attr]);
+    }
+
+    return flu;
+}
+
+/**
+ * Gets the tier a building has been merged into, or `undefined` for unmerged buildings.
+ */
+export function getBuildingTier(building: Building) {
+    return building.tier && building.tier > 1 ? buildings[building.type]?.tiers?.[building.tier - 2] : undefined;
+}
+
+/**
+ * Gets the multipliers applied to the building on a loop: its influences, then the multipliers of its tier.
+ */
+export function getBuildingModifiers(state: RunState, id: string) {
+    let modifiers = getInfluence(state, id);
+    let building = state.loops[id]?.building;
+    let tier = building ? getBuildingTier(building) : undefined;
+    for (let [attr, mult] of Object.entries(tier?.multipliers ?? {})) {
+        modifiers[attr] = (modifiers[attr] ?? 1) * mult;
+    }
+    return modifiers;
+}
+
+/**
+ * Gets every free cell a new loop could be added to, i.e. the ones next to an existing loop outside of any blocked cells.
+ */
+export function getExpansionCandidates(state: RunState) {
+    let candidates = Object.keys(state.loops).flatMap(id => getNeighbors(state, id))
+        .filter(id => !state.loops[id] && !state.config.map?.blocked.includes(id));
+    return candidates.filter((id, index) => candidates.indexOf(id) == index);
+}
+
+/**
+ * Adds a new loop to the board. Maps spawn the loops in their spawn order first,
+ * after which new loops are put next to a random existing one, outside of any blocked cells.
+ */
+export function spawnLoop(state: RunState) {
+    let map = state.config.map;
+    let id = map?.spawnOrder.find(loop => !state.loops[loop]) ?? "";
+    let entries = id ? [] : Object.entries(state.loops);
+
+    while (entries.length) {
+        let pos = Math.floor(random(state) * entries.length);
+        let entry = entries[pos];
+        let poses = getNeighbors(state, entry[0]).filter(neighbor => !state.loops[neighbor] && !map?.blocked.includes(neighbor));
+
+        if (poses.length) {
+            id = poses[Math.floor(random(state) * poses.length)];
+            break;
+        } else {
+            entries.splice(pos, 1);
+        }
+    }
+    if (!id) return;
+
+    addLoop(state, id);
+}
+
+function addLoop(state: RunState, id: string) {
+    let loop: Loop = { enemies: [] };
+    if (random(state) < terrainChance) {
+        loop.terrain = chooseWeighted(state, Object.entries(terrains).map(([id, terrain]) => [id, terrain.weight]));
+    }
+    state.loops[id] = loop;
+    clearInfluenceAreas(state);
+    state.events.emit("loopSpawned", id);
+}
+
+/**
+ * Adds a new loop on a cell the player chose out of the current expansion candidates.
+ * @returns Whether the loop was added.
+ */
+export function chooseLoop(state: RunState, id: string) {
+    if (!state.expansionCandidates.includes(id)) return false;
+    state.expansionCandidates = [];
+    addLoop(state, id);
+    return true;
+}
+
+function expand(state: RunState) {
+    let map = state.config.map;
+    if (state.config.expansion != "choice" || map?.spawnOrder.some(id => !state.loops[id])) {
+        spawnLoop(state);
+        return;
+    }
+    state.expansionCandidates = getExpansionCandidates(state);
+    state.expansionTimer = expansionTimeout;
+}
+
+function advanceCycle(state: RunState) {
+    state.cycle++;
+    spawnEnemies(state);
+    if (state.cycle % bossInterval == 0) spawnBoss(state);
+    if ((state.cycle + 1) % 2 == 0) expand(state);
+    state.events.emit("cycleAdvanced", state.cycle);
+}
+
+/**
+ * Advances the run by `delta` seconds of game time, in as many fixed-length ticks as fit into it.
+ * The remainder is carried over to the next call, so the outcome of a run doesn't depend on frame rate or game speed.
+ * Game speed and pausing are up to the caller.
+ * @param beforeTick Called before every tick, e.g. to apply recorded inputs on the exact tick they happened on.
+ */
+export function advance(state: RunState, delta: number, beforeTick?: (state: RunState) => void) {
+    state.accumulator += delta;
+    while (state.accumulator >= tickLength && state.health > 0) {
+        state.accumulator -= tickLength;
+        beforeTick?.(state);
+        step(state, tickLength);
+        state.tick++;
+    }
+}
+
+/**
+ * Advances the run by exactly `delta` seconds of game time, in a single step.
+ * Use {@link advance} unless the step length is already fixed.
+ */
+export function step(state: RunState, delta: number) {
+    state.lifetime += delta;
+    state.sellCooldown -= delta;
+    if (state.undoStack.length) {
+        state.undoStack = state.undoStack.filter(entry => entry.expires > state.lifetime);
+    }
+
+    if (state.expansionCandidates.length) {
+        // The cycle timer stays paused until the player has chosen where the new loop goes
+        state.expansionTimer -= delta;
+        if (state.expansionTimer <= 0) {
+            state.expansionCandidates = [];
+            spawnLoop(state);
+        }
+    } else {
+        if (state.cycle >= 1) {
+            state.cycleProgress += delta / (15 + Math.sqrt(state.cycle));
+            if (state.cycleProgress >= 1) {
+                state.cycleProgress--;
+                advanceCycle(state);
+            }
+        }
+        if (Object.values(state.loops).every(loop => loop.enemies.length <= 0)) {
+            state.cycleProgress = 0;
+            advanceCycle(state);
+        }
+    }
+
+    let enemyMoves: {
+        enemy: Enemy;
+        from: string;
+        to: string;
+    }[] = [];
+
+    let loopStress: Record<string, number> = {};
+    let topology = getTopology(state);
+
+    for (let id in state.loops) {
+        let loop = state.loops[id];
+        let neighbors = getNeighbors(state, id);
+        let terrain = terrains[loop.terrain ?? ""];
+        loopStress[id] = 0;
+
+        for (let enm of [...loop.enemies]) {
+            let prevAngle = enm.angle;
+
+            let dist = enm.speed * 0.1 * delta * getEffectMultiplier(enm, "movement") * (terrain?.movement ?? 1);
+            enm.angle += dist;
+            enm.lifetime += Math.abs(dist);
+
+            loopStress[id] += enm.lifetime * (terrain?.stress ?? 1);
+            enm.angle = ((enm.angle % 1) + 1) % 1;
+
+            let [ min, max ] = [
+                Math.min(prevAngle, enm.angle),
+                Math.max(prevAngle, enm.angle),
+            ];
+
+            if (enm.health <= 0) {
+                loop.enemies.splice(loop.enemies.indexOf(enm), 1);
+                for (let [id, loot] of Object.entries(enm.loot)) {
+                    state.resources[id] = Decimal.mul(loot, terrain?.loot?.[id] ?? 1).add(state.resources[id]).toNumber();
+                }
+                for (let [id, loot] of Object.entries(enemyTypes[enm.type ?? "normal"]?.bonusLoot ?? {})) {
+                    state.resources[id] = Decimal.mul(loot, (enm.cycle ?? state.cycle) / bossInterval).add(state.resources[id]).toNumber();
+                }
+                enemyTypes[enm.type ?? "normal"]?.onDeath?.(enm, loop, state);
+                let killer = enm.lastHitBy === undefined ? undefined : findBuilding(state, enm.lastHitBy);
+                if (killer) recordBuildingStat(state, killer, "kills", 1);
+                state.events.emit("enemyKilled", enm, id);
+                continue;
+            }
+            enemyTypes[enm.type ?? "normal"]?.onUpdate?.(enm, loop, delta, state);
+
+            let phases = enemyTypes[enm.type ?? "normal"]?.phases ?? [];
+            while ((enm.phase ?? 0) < phases.length && enm.health <= enm.maxHealth * phases[enm.phase ?? 0].threshold) {
+                advancePhase(state, enm, id);
+            }
+
+            let wrapped = max - min > .5;
+            let junction = topology.junctions.findIndex(angle => wrapped ? angle <= min || angle >= max : min < angle && angle < max);
+            let target = neighbors[junction];
+            if (junction >= 0 && state.loops[target] && random(state) < getCrossChance(state, id, target)) {
+                enemyMoves.push({
+                    enemy: enm,
+                    from: id,
+                    to: target,
+                });
+                // Mirror the enemy across the junction so it keeps its position on the board
+                enm.angle = 2 * topology.junctions[junction] + .5 - enm.angle;
+                enm.speed = -enm.speed;
+            }
+
+            enm.angle = ((enm.angle % 1) + 1) % 1;
+
+            for (let eff in enm.effects) {
+                effects[eff]?.onTick?.(enm, Math.abs(dist), state);
+                enm.effects[eff] -= Math.abs(dist);
+                if (enm.effects[eff] <= 0) delete enm.effects[eff];
+            }
+        }
+
+        if (loop.building) {
+            recordBuildingStat(state, loop.building, "time", delta);
+            buildings[loop.building.type].onUpdate?.(loop.building, loop, delta, getBuildingModifiers(state, id), state);
+        }
+    }
+
+    let stressFactor = getStressFactor(state);
+    state.loopStress = Object.fromEntries(Object.entries(loopStress).map(([id, stress]) => [id, stress * stressFactor]));
+    state.stress = Object.values(state.loopStress).reduce((total, stress) => total + stress, 0);
+
+    if (state.stress > 1) {
+        let healthFactor = 1;
+        switch (state.config.mode) {
+            case "standard":
+                healthFactor = 1;
+                break;
+            case "boosted":
+                healthFactor = 2;
+                break;
+            case "hardcore":
+                healthFactor = 10;
+                break;
+        }
+        damageRun(state, (2 ** state.stress) * delta * healthFactor, "stress");
+    }
+
+    if (state.config.healthRegen) {
+        healRun(state, state.config.healthRegen * delta, "regen");
+    }
+
+    for (let move of enemyMoves) {
+        let from = state.loops[move.from];
+        let to = state.loops[move.to];
+
+        from.enemies.splice(from.enemies.indexOf(move.enemy), 1);
+        to.enemies.push(move.enemy);
+
+        if (from.building) {
+            buildings[from.building.type].onEnemyExit?.(from.building, from, move.enemy, getBuildingModifiers(state, move.from), state);
+        }
+        if (to.building) {
+            buildings[to.building.type].onEnemyEnter?.(to.building, to, move.enemy, getBuildingModifiers(state, move.to), state);
+        }
+        state.events.emit("enemyMoved", move.enemy, move.from, move.to);
+    }
+}
+
+/**
+ * Places a building on a loop, triggering its `onEnemyEnter` for every enemy already on it.
+ */
+export function placeBuilding(state: RunState, id: string, type: string) {
+    let loop = state.loops[id];
+    loop.building = {
+        id: state.nextBuildingId++,
+        type,
+        upgrades: {},
+        data: {},
+        sellValue: {},
+    };
+    clearInfluenceAreas(state);
+    let building = loop.building;
+    for (let enm of [...loop.enemies]) {
+        buildings[type].onEnemyEnter?.(building, loop, enm, getBuildingModifiers(state, id), state);
+    }
+    state.events.emit("buildingPlaced", building, id);
+    return building;
+}
+
+/**
+ * Finds the building with an ID on the board, if it's still there.
+ */
+export function findBuilding(state: RunState, id: number) {
+    return Object.values(state.loops).find(loop => loop.building?.id == id)?.building;
+}
+
+/**
+ * Removes the building on a loop without any refund. Buildings that remove themselves have to go through this too.
+ * @returns The building removed.
+ */
+export function removeBuilding(state: RunState, id: string) {
+    let building = state.loops[id].building;
+    if (!building) return;
+    delete state.loops[id].building;
+    clearInfluenceAreas(state);
+    state.events.emit("buildingRemoved", building, id);
+    return building;
+}
+
+/**
+ * Moves a building to an empty loop, keeping its upgrades and data, and triggers its `onEnemyEnter` for every enemy already on the new loop.
+ */
+export function moveBuilding(state: RunState, from: string, to: string) {
+    let building = state.loops[from].building!;
+    let loop = state.loops[to];
+    delete state.loops[from].building;
+    loop.building = building;
+    clearInfluenceAreas(state);
+    for (let enm of [...loop.enemies]) {
+        buildings[building.type].onEnemyEnter?.(building, loop, enm, getBuildingModifiers(state, to), state);
+    }
+    state.events.emit("buildingMoved", building, from, to);
+    return building;
+}
+
+/**
+ * Merges the building on a loop with the identical building on another loop into the next tier, leaving the other loop empty.
+ * The merged building keeps the higher level of each upgrade, and is worth what both were when sold.
+ */
+export function mergeBuildings(state: RunState, id: string, other: string) {
+    let building = state.loops[id].building!;
+    let merged = state.loops[other].building!;
+    for (let [upg, level] of Object.entries(merged.upgrades)) {
+        building.upgrades[upg] = Math.max(building.upgrades[upg] ?? 0, level);
+    }
+    for (let [res, value] of Object.entries(merged.sellValue)) {
+        building.sellValue[res] = (building.sellValue[res] ?? 0) + value;
+    }
+    if (!building.specialization && merged.specialization) building.specialization = merged.specialization;
+    if (merged.stats) building.stats = addBuildingStats(building.stats ?? createBuildingStats(), merged.stats);
+    building.tier = (building.tier ?? 1) + 1;
+    delete state.loops[other].building;
+    clearInfluenceAreas(state);
+    // Kills of enemies the merged building hit last go to the building it merged into
+    for (let loop of Object.values(state.loops)) {
+        for (let enm of loop.enemies) {
+            if (merged.id !== undefined && enm.lastHitBy == merged.id) enm.lastHitBy = building.id;
+        }
+    }
+    state.events.emit("buildingsMerged", building, id, other);
+    return building;
+}
@@ -0,0 +1,61 @@
+import { Building, BuildingStats, RunState } from "./types/data";
+
+/** The stats that are counted up, as opposed to the resources a building generates. */
+export type BuildingStat = Exclude<keyof BuildingStats, "generated">;
+
+export function createBuildingStats(): BuildingStats {
+    return { damage: 0, kills: 0, lastHits: 0, effects: 0, time: 0, generated: {} };
+}
+
+/**
+ * Adds every stat of another set of stats onto a set of stats.
+ * @returns The stats added onto.
+ */
+export function addBuildingStats(stats: BuildingStats, other: BuildingStats) {
+    stats.damage += other.damage;
+    stats.kills += other.kills;
+    stats.lastHits += other.lastHits;
+    stats.effects += other.effects;
+    stats.time += other.time;
+    for (let [id, amount] of Object.entries(other.generated)) {
+        stats.generated[id] = (stats.generated[id] ?? 0) + amount;
+    }
+    return stats;
+}
+
+/**
+ * Gets the stats of a building, or empty stats if it hasn't done anything yet.
+ */
+export function getBuildingStats(building: Building) {
+    return building.stats ?? createBuildingStats();
+}
+
+/**
+ * Adds to one of a building's stats, and to the stats of its building type in the run.
+ * @param state The run the building is in.
+ * @param building The building to credit.
+ * @param stat The stat to add to.
+ * @param amount How much to add.
+ */
+export function recordBuildingStat(state: RunState, building: Building, stat: BuildingStat, amount: number) {
+    if (amount == 0) return;
+    building.stats = building.stats ?? createBuildingStats();
+    building.stats[stat] += amount;
+    let typeStats = state.buildingStats[building.type] = state.buildingStats[building.type] ?? createBuildingStats();
+    typeStats[stat] += amount;
+}
+
+/**
+ * Credits a building with resources it generated, both on the building and on its building type in the run.
+ * @param state The run the building is in.
+ * @param building The building to credit.
+ * @param resource The ID of the resource generated.
+ * @param amount How much was generated.
+ */
+export function recordGenerated(state: RunState, building: Building, resource: string, amount: number) {
+    if (amount == 0) return;
+    building.stats = building.stats ?? createBuildingStats();
+    building.stats.generated[resource] = (building.stats.generated[resource] ?? 0) + amount;
+    let typeStats = state.buildingStats[building.type] = state.buildingStats[building.type] ?? createBuildingStats();
+    typeStats.generated[resource] = (typeStats.generated[resource] ?? 0) + amount;
+}
@@ -1,25 +1,66 @@
 import { Shape, NodeTypeOptions, ProgressDisplay } from "features/boards/board";
 import * as b from "./buildings";
-import { Building, BuildingType, Loop } from "./data";
+import { Building, BuildingType, Enemy, EnemyType, Loop, LoopTerrain, StatusEffect } from "./data";
+import * as e from "./effects";
+import * as en from "./enemies";
+import * as tr from "./terrains";
+import { getBuildingTier } from "../simulation";
 import settings from "game/settings";
 import { formatWhole } from "util/break_eternity";
 
 const buildings = b as { [key: string]: BuildingType };
+const effects = e as { [key: string]: StatusEffect };
+const enemyTypes = en as { [key: string]: EnemyType };
+const terrains = tr as { [key: string]: LoopTerrain };
 
 export const loop = {
     shape: Shape.Circle,
     size: 50,
     title: (node) => { 
-        let count = (node.state as { target: Loop }).target.enemies.length;
-        return settings.quality < 1 && count > 0 ? formatWhole(count) : "";
+        let { target, preview } = node.state as { target: Loop, preview?: string };
+        if (preview !== undefined) return preview;
+        return settings.quality < 1 && target.enemies.length > 0 ? formatWhole(target.enemies.length) : "";
     },
-    classes: { loop: true },
+    label: (node) => {
+        let terrain = terrains[(node.state as { target: Loop }).target.terrain ?? ""];
+        return terrain ? { text: terrain.icon, color: terrain.color } : null;
+    },
+    style: node => {
+        let heat = (node.state as { heat?: number }).heat;
+        return heat === undefined ? {} : { "--heat": heat };
+    },
+    classes: node => {
+        let { heat, preview } = node.state as { heat?: number, preview?: string };
+        return { loop: true, heat: heat !== undefined, influenced: preview !== undefined };
+    },
+} as NodeTypeOptions;
+
+export const blocked = {
+    shape: Shape.Square,
+    size: 35,
+    title: "",
+    classes: { blocked: true },
+} as NodeTypeOptions;
+
+export const candidate = {
+    shape: Shape.Circle,
+    size: 50,
+    title: "+",
+    classes: { candidate: true },
 } as NodeTypeOptions;
 
 export const enemy = {
     shape: Shape.Circle,
-    size: 8,
+    size: node => enemyTypes[(node.state as { target: Enemy }).target.type ?? "normal"]?.size ?? 8,
     title: "",
+    style: node => {
+        let target = (node.state as { target: Enemy }).target;
+        let effect = Object.keys(target.effects).find(id => effects[id]);
+        return {
+            "--enemy-color": enemyTypes[target.type ?? "normal"]?.color,
+            "--effect-color": effect ? effects[effect].color : undefined,
+        };
+    },
     classes: { enemy: true },
 } as NodeTypeOptions;
 
@@ -28,11 +69,19 @@ export const building = {
         "damager": Shape.Circle,
         "effector": Shape.Diamond,
         "influencer": Shape.Squircle,
+        "router": Shape.Square,
         "generator": Shape.Square,
+        "support": Shape.Circle,
     }[buildings[((node.state as { target: Building }).target.type as string)]?.class]),
     size: 30,
-    title: node => buildings[((node.state as { target: Building }).target.type as string)]?.icon,
-    fillColor: node => buildings[((node.state as { target: Building }).target.type as string)]?.color,
+    title: node => {
+        let bd = (node.state as { target: Building }).target;
+        return getBuildingTier(bd)?.icon ?? buildings[bd.type]?.icon;
+    },
+    fillColor: node => {
+        let bd = (node.state as { target: Building }).target;
+        return getBuildingTier(bd)?.color ?? buildings[bd.type]?.color;
+    },
     progress: node => {
         let bd = (node.state as { target: Building }).target;
         return buildings[bd.type].progress?.(bd) ?? 0;
@@ -1,7 +1,113 @@
-import { Enemy } from "./data";
+import { random } from "util/random";
+import { recordBuildingStat, recordGenerated } from "../stats";
+import { Damage, DamageResult, Enemy, EnemyType, Loop, RunState, StatusEffect } from "./data";
+import * as e from "./effects";
+import * as en from "./enemies";
 
-export function dealDamage(enemy: Enemy, damage: number) {
-    if (enemy.effects.decay) damage *= 2;
-    if (enemy.effects.blazing) damage *= 4;
-    enemy.health -= damage;
-}
\ No newline at end of file
+const effects = e as { [key: string]: StatusEffect };
+const enemyTypes = en as { [key: string]: EnemyType };
+
+/** The chance for damage that can crit to do so. */
+export const critChance = 0.05;
+/** The damage multiplier of a critical hit. */
+export const critMultiplier = 2;
+
+/**
+ * Deals damage to an enemy. This is the only way buildings should damage enemies.
+ * The damage is calculated in this order:
+ * 1. Critical hit, if the damage can crit.
+ * 2. Status effect multipliers, unless the damage ignores effects.
+ * 3. The enemy's resistance to the damage type. True damage can't be resisted.
+ * @param enemy The enemy to damage.
+ * @param damage The damage to deal.
+ * @param source The loop of the building dealing the damage.
+ * @param run The run the enemy is in.
+ * @returns The damage actually dealt, and how much of it went over the enemy's remaining health.
+ */
+export function dealDamage(enemy: Enemy, damage: Damage, source: Loop, run: RunState): DamageResult {
+    let amount = damage.amount;
+
+    let crit = damage.canCrit == true && random(run) < critChance;
+    if (crit) amount *= critMultiplier;
+
+    if (!damage.ignoreEffects) {
+        amount *= getEffectMultiplier(enemy, "damageTaken");
+    }
+
+    if (damage.type != "true") {
+        amount *= 1 - (enemy.resistances?.[damage.type] ?? 0);
+    }
+
+    let dealt = Math.min(amount, Math.max(enemy.health, 0));
+    let result = { dealt, overkill: amount - dealt, crit };
+    recordBuildingStat(run, damage.source, "damage", dealt);
+    if (enemy.health > 0 && enemy.health <= amount) recordBuildingStat(run, damage.source, "lastHits", 1);
+    enemy.health -= amount;
+    enemy.lastHitBy = damage.source.id;
+    run.events.emit("damageDealt", enemy, result, damage, source);
+    return result;
+}
+
+/**
+ * Applies a status effect to an enemy, following the effect's stacking rule.
+ * Effects it's exclusive with are removed, unless the enemy has an effect that allows them to coexist.
+ * Does nothing to enemies whose type is immune to effects.
+ * @param enemy The enemy to apply the effect to.
+ * @param id The ID of the effect, as in {@link effects}.
+ * @param duration How long the effect lasts, in radians travelled.
+ * @param source The loop of the building applying the effect.
+ * @param run The run the enemy is in.
+ */
+export function applyEffect(enemy: Enemy, id: string, duration: number, source: Loop, run: RunState) {
+    if (enemyTypes[enemy.type ?? "normal"]?.effectImmune) return;
+
+    let effect = effects[id];
+    if (!Object.keys(enemy.effects).some(other => effects[other]?.allowsExclusive)) {
+        for (let other of effect.exclusive ?? []) {
+            delete enemy.effects[other];
+        }
+    }
+
+    let current = enemy.effects[id] ?? 0;
+    switch (effect.stacking) {
+        case "replace":
+            enemy.effects[id] = duration;
+            break;
+        case "max":
+            enemy.effects[id] = Math.max(current, duration);
+            break;
+        case "add":
+            enemy.effects[id] = current + duration;
+            break;
+    }
+    if (source.building) recordBuildingStat(run, source.building, "effects", 1);
+    run.events.emit("enemyAffected", enemy, source);
+}
+
+/**
+ * Adds to an enemy's loot, crediting the building on the source loop with generating it.
+ * This is the only way buildings should add to enemies' loot.
+ * @param enemy The enemy whose loot to add to.
+ * @param id The ID of the resource to add.
+ * @param amount How much to add.
+ * @param source The loop of the building adding the loot.
+ * @param run The run the enemy is in.
+ */
+export function addLoot(enemy: Enemy, id: string, amount: number, source: Loop, run: RunState) {
+    enemy.loot[id] = (enemy.loot[id] ?? 0) + amount;
+    if (source.building) recordGenerated(run, source.building, id, amount);
+    run.events.emit("enemyAffected", enemy, source);
+}
+
+/**
+ * Multiplies a multiplier of every effect an enemy has together.
+ * @param enemy The enemy to check.
+ * @param multiplier The multiplier to combine.
+ */
+export function getEffectMultiplier(enemy: Enemy, multiplier: "movement" | "damageTaken") {
+    let result = 1;
+    for (let id in enemy.effects) {
+        result *= effects[id]?.[multiplier] ?? 1;
+    }
+    return result;
+}
@@ -1,9 +1,16 @@
-import { Shape } from "features/boards/board";
-import { BoardConnections, BoardID, BuildingType, Enemy } from "./data";
-import { dealDamage } from "./buildingHelper";
-import gameLayer from "data/layers/game";
-import { chooseUniqueElements } from "data/common";
-import { main } from "data/projEntry";
+import { BuildingType, Enemy, EnemyType, Loop, RunState } from "./data";
+import { addLoot, applyEffect, dealDamage } from "./buildingHelper";
+import { healRun, shieldRun } from "../health";
+import { getNeighbors, removeBuilding } from "../simulation";
+import { chooseUniqueElements } from "util/common";
+import { random } from "util/random";
+import * as en from "./enemies";
+
+const enemyTypes = en as { [key: string]: EnemyType };
+
+function removeOwnBuilding(loop: Loop, run: RunState) {
+    removeBuilding(run, Object.keys(run.loops).find(id => run.loops[id] == loop)!);
+}
 
 export const beamer = {
     name: "Beamer",
@@ -24,21 +31,45 @@ export const beamer = {
             precision: 2, unit: "s",
         },
     },
+    tiers: [
+        { name: "Twin Beamer", icon: "💎", color: "#afdfff", multipliers: { damage: 2.5 } },
+        { name: "Prism Beamer", icon: "🔮", color: "#cfafff", multipliers: { damage: 6 } },
+    ],
+    specializations: {
+        upgrade: "interval",
+        choices: {
+            piercing: {
+                name: "Piercing",
+                description: "Each beam also hits one random enemy on an adjacent loop.",
+            },
+            decaying: {
+                name: "Decaying",
+                description: "Beamed enemies get the \"Decay\" effect for 4 rad.",
+            },
+        },
+    },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             self.data.prg = ((self.data.prg ?? 0) as number) + delta / this.upgrades.interval.effect(self.upgrades.interval ?? 0) * (inf.speed ?? 1);
             if (self.data.prg >= 1) {
                 let amount = 1;
-                if (main.buildingUpgrades.beamer.double.bought.value == true) {
+                if (run.config.buildingUpgrades.beamer?.double == true) {
                     amount += 1;
                 }
-                let enemiesToShoot = chooseUniqueElements(loop.enemies, Math.min(loop.enemies.length, amount));
+                let damage = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
+                let enemiesToShoot = chooseUniqueElements(loop.enemies, Math.min(loop.enemies.length, amount), () => random(run));
                 enemiesToShoot.forEach(enm => {
-                    dealDamage(enm, this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1));
-                    if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                    enm[BoardConnections][loop[BoardID] ?? 0] = 0;
-                });;
+                    dealDamage(enm, { amount: damage, type: "kinetic", source: self }, loop, run);
+                    if (self.specialization == "decaying") applyEffect(enm, "decay", 4, loop, run);
+                });
+                if (self.specialization == "piercing") {
+                    let id = Object.keys(run.loops).find(id => run.loops[id] == loop) ?? "";
+                    let others = getNeighbors(run, id).flatMap(other => run.loops[other]?.enemies ?? []);
+                    if (others.length) {
+                        dealDamage(others[Math.floor(random(run) * others.length)], { amount: damage, type: "kinetic", source: self }, loop, run);
+                    }
+                }
                 self.data.prg--;
             }
         } else {
@@ -66,15 +97,34 @@ export const splatter = {
             precision: 2, unit: "s",
         },
     },
+    tiers: [
+        { name: "Splasher", icon: "💧", color: "#afdfef", multipliers: { damage: 2.5 } },
+    ],
+    specializations: {
+        upgrade: "interval",
+        choices: {
+            scattering: {
+                name: "Scattering",
+                description: "Splats two random enemies at once.",
+            },
+            sticky: {
+                name: "Sticky",
+                description: "Splatted enemies get the \"Swamped\" effect for 1 rad.",
+            },
+        },
+    },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             self.data.prg = ((self.data.prg ?? 0) as number) + delta / this.upgrades.interval.effect(self.upgrades.interval ?? 0) * (inf.speed ?? 1);
             if (self.data.prg >= 1) {
-                let enm = loop.enemies[Math.floor(Math.random() * loop.enemies.length)];
-                dealDamage(enm, this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1));
-                if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                let enemiesToSplat = self.specialization == "scattering"
+                    ? chooseUniqueElements(loop.enemies, Math.min(loop.enemies.length, 2), () => random(run))
+                    : [loop.enemies[Math.floor(random(run) * loop.enemies.length)]];
+                for (let enm of enemiesToSplat) {
+                    dealDamage(enm, { amount: this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1), type: "kinetic", source: self }, loop, run);
+                    if (self.specialization == "sticky") applyEffect(enm, "swamped", 1, loop, run);
+                }
                 self.data.prg--;
             }
         } else {
@@ -109,17 +159,15 @@ export const blaster = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             self.data.prg = ((self.data.prg ?? 0) as number) + delta / this.upgrades.interval.effect(self.upgrades.interval ?? 0) * (inf.speed ?? 1);
             self.data.time = ((self.data.time ?? 0) as number) + delta;
             if (self.data.prg >= 1) {
-                let enm = loop.enemies[Math.floor(Math.random() * loop.enemies.length)];
+                let enm = loop.enemies[Math.floor(random(run) * loop.enemies.length)];
                 let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) + 
                     Math.log(self.data.time + 1) * this.upgrades.damage2.effect(self.upgrades.damage2 ?? 0);
-                dealDamage(enm, dam * (inf.damage ?? 1));
-                if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                dealDamage(enm, { amount: dam * (inf.damage ?? 1), type: "kinetic", source: self }, loop, run);
                 self.data.prg--;
                 self.data.time = 0;
             }
@@ -155,19 +203,17 @@ export const stunner = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             self.data.prg = ((self.data.prg ?? 0) as number) + delta / this.upgrades.interval.effect(self.upgrades.interval ?? 0) * (inf.speed ?? 1);
             self.data.time = ((self.data.time ?? 0) as number) + delta;
             if (self.data.prg >= 1) {
-                let enm = loop.enemies[Math.floor(Math.random() * loop.enemies.length)];
+                let enm = loop.enemies[Math.floor(random(run) * loop.enemies.length)];
                 let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0)
-                dealDamage(enm, dam * (inf.damage ?? 1));
-                if (Math.random() < this.upgrades.chance.effect(self.upgrades.chance ?? 0) / 100) {
-                    enm.effects.stun = 0.0005;
+                dealDamage(enm, { amount: dam * (inf.damage ?? 1), type: "kinetic", source: self }, loop, run);
+                if (random(run) < this.upgrades.chance.effect(self.upgrades.chance ?? 0) / 100) {
+                    applyEffect(enm, "stun", 0.0005, loop, run);
                 }
-                if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                enm[BoardConnections][loop[BoardID] ?? 0] = 0;
                 self.data.prg--;
                 self.data.time = 0;
             }
@@ -191,16 +237,14 @@ export const hourglass = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             self.data.prg = ((self.data.prg ?? 0) as number) + delta / this.upgrades.interval.effect(self.upgrades.interval ?? 0) * (inf.speed ?? 1);
             self.data.time = ((self.data.time ?? 0) as number) + delta;
             if (self.data.prg >= 1) {
-                let enm = loop.enemies[Math.floor(Math.random() * loop.enemies.length)];
+                let enm = loop.enemies[Math.floor(random(run) * loop.enemies.length)];
                 let dam = 10 + 2 * Math.sqrt(self.data.time + 1);
-                dealDamage(enm, dam * (inf.damage ?? 1));
-                if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                dealDamage(enm, { amount: dam * (inf.damage ?? 1), type: "kinetic", source: self }, loop, run);
                 self.data.prg--;
             }
         } else {
@@ -223,16 +267,14 @@ export const xray = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
             let target = loop.enemies[0];
             for (let a = 1; a < loop.enemies.length; a++) {
                 if (loop.enemies[a].health < target.health) target = loop.enemies[a];
             }
-            dealDamage(target, dam * delta);
-            if (!target[BoardConnections]) target[BoardConnections] = {};
-            target[BoardConnections][loop[BoardID] ?? 0] = 0;
+            dealDamage(target, { amount: dam * delta, type: "thermal", source: self }, loop, run);
         }
     },
 } as BuildingType;
@@ -250,12 +292,10 @@ export const plasma = {
             unit: "/s",
         },
     },
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
         for (let enm of loop.enemies) {
-            dealDamage(enm, dam * delta);
-            if (!enm[BoardConnections]) enm[BoardConnections] = {};
-            enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+            dealDamage(enm, { amount: dam * delta, type: "thermal", source: self }, loop, run);
         }
     },
 } as BuildingType;
@@ -280,15 +320,13 @@ export const bomber = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             self.data.prg = ((self.data.prg ?? 0) as number) + delta / this.upgrades.interval.effect(self.upgrades.interval ?? 0) * (inf.speed ?? 1);
             if (self.data.prg >= 1) {
                 let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
                 for (let enm of loop.enemies) {
-                    dealDamage(enm, dam);
-                    if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                    enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                    dealDamage(enm, { amount: dam, type: "thermal", source: self }, loop, run);
                 }
                 self.data.prg -= 1;
             }
@@ -312,7 +350,7 @@ export const winder = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             let int = 3 * (inf.speed ?? 1);
             for (let enm of loop.enemies) {
@@ -323,9 +361,7 @@ export const winder = {
             if (self.data.prg >= 1) {
                 let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
                 for (let enm of loop.enemies) {
-                    dealDamage(enm, dam);
-                    if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                    enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                    dealDamage(enm, { amount: dam, type: "kinetic", source: self }, loop, run);
                 }
                 self.data.prg -= 1;
             }
@@ -349,7 +385,7 @@ export const antiwinder = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             let int = 3 * (inf.speed ?? 1);
             for (let enm of loop.enemies) {
@@ -360,9 +396,7 @@ export const antiwinder = {
             if (self.data.prg >= 1) {
                 let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
                 for (let enm of loop.enemies) {
-                    dealDamage(enm, dam);
-                    if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                    enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                    dealDamage(enm, { amount: dam, type: "kinetic", source: self }, loop, run);
                 }
                 self.data.prg -= 1;
             }
@@ -370,7 +404,7 @@ export const antiwinder = {
             self.data.prg = 0;
         }
     },
-    onEnemyEnter(self, loop, enemy, inf) {
+    onEnemyEnter(self, loop, enemy, inf, run) {
         self.data.prg = ((self.data.prg ?? 0) as number) / 2;
     }
 } as BuildingType;
@@ -389,7 +423,7 @@ export const winderL = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             let int = 3 * (inf.speed ?? 1);
             for (let enm of loop.enemies) {
@@ -400,9 +434,7 @@ export const winderL = {
             if (self.data.prg >= 1) {
                 let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
                 for (let enm of loop.enemies) {
-                    dealDamage(enm, dam);
-                    if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                    enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                    dealDamage(enm, { amount: dam, type: "kinetic", source: self }, loop, run);
                 }
                 self.data.prg -= 1;
             }
@@ -426,7 +458,7 @@ export const winderR = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             let int = 3 * (inf.speed ?? 1);
             for (let enm of loop.enemies) {
@@ -437,9 +469,7 @@ export const winderR = {
             if (self.data.prg >= 1) {
                 let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
                 for (let enm of loop.enemies) {
-                    dealDamage(enm, dam);
-                    if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                    enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                    dealDamage(enm, { amount: dam, type: "kinetic", source: self }, loop, run);
                 }
                 self.data.prg -= 1;
             }
@@ -462,13 +492,11 @@ export const swamp = {
             unit: "/s",
         },
     },
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
         for (let enm of loop.enemies) {
-            dealDamage(enm, dam * delta);
-            enm.effects.swamped = 0.0001;
-            if (!enm[BoardConnections]) enm[BoardConnections] = {};
-            enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+            dealDamage(enm, { amount: dam * delta, type: "kinetic", source: self }, loop, run);
+            applyEffect(enm, "swamped", 0.0001, loop, run);
         }
     },
 } as BuildingType;
@@ -493,17 +521,15 @@ export const thunder = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
-        if (loop.enemies.length && gameLayer.resources.energy.value >= dam) {
+        if (loop.enemies.length && run.resources.energy >= dam) {
             self.data.prg = ((self.data.prg ?? 0) as number) + delta / this.upgrades.interval.effect(self.upgrades.interval ?? 0) * (inf.speed ?? 1);
             if (self.data.prg >= 1) {
-                let enm = loop.enemies[Math.floor(Math.random() * loop.enemies.length)];
-                dealDamage(enm, dam);
-                if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                let enm = loop.enemies[Math.floor(random(run) * loop.enemies.length)];
+                dealDamage(enm, { amount: dam, type: "thermal", source: self }, loop, run);
                 self.data.prg--;
-                gameLayer.resources.energy.value -= dam;
+                run.resources.energy -= dam;
                 enm.loot.energy = 0;
             }
         } else {
@@ -519,12 +545,10 @@ export const pins = {
     baseCost: { energy: 75, },
     upgrades: {},
     progress: self => 1 - (self.data.uses as number ?? 0) / 20,
-    onEnemyEnter(self, loop, enemy, inf) {
-        dealDamage(enemy, 20 * (inf.damage ?? 1));
+    onEnemyEnter(self, loop, enemy, inf, run) {
+        dealDamage(enemy, { amount: 20 * (inf.damage ?? 1), type: "kinetic", source: self }, loop, run);
         self.data.uses = (self.data.uses as number ?? 0) + 1;
-        if (self.data.uses >= 20) delete loop.building;
-        if (!enemy[BoardConnections]) enemy[BoardConnections] = {};
-        enemy[BoardConnections][loop[BoardID] ?? 0] = 0;
+        if (self.data.uses >= 20) removeOwnBuilding(loop, run);
     },
 } as BuildingType;
 
@@ -535,17 +559,18 @@ export const wysi = {
     baseCost: { energy: 727, },
     upgrades: {},
     progress: self => 1 - (self.data.time as number ?? 0) / 72.7,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         self.data.time = (self.data.time as number ?? 0) + delta;
-        if (Math.floor(gameLayer.resources.energy.value) == 727) {
-            for (let loop of Object.values(gameLayer.loops.value)) {
-                for (let enm of loop.enemies) {
-                    enm.health -= 727;
+        if (Math.floor(run.resources.energy) == 727) {
+            for (let other of Object.values(run.loops)) {
+                for (let enm of other.enemies) {
+                    dealDamage(enm, { amount: 727, type: "true", ignoreEffects: true, source: self }, loop, run);
                 }
             }
-            delete loop.building;
+            removeOwnBuilding(loop, run);
+        } else if (self.data.time >= 72.7) {
+            removeOwnBuilding(loop, run);
         }
-        if (self.data.time >= 72.7) delete loop.building;
     },
 } as BuildingType;
 
@@ -563,13 +588,13 @@ export const snail = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         let dam = this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1);
         self.data.prg = ((self.data.prg ?? 0) as number) + delta / 60;
         if (self.data.prg >= 1) {
-            for (let loop of Object.values(gameLayer.loops.value)) {
-                for (let enm of loop.enemies) {
-                    dealDamage(enm, dam);
+            for (let other of Object.values(run.loops)) {
+                for (let enm of other.enemies) {
+                    dealDamage(enm, { amount: dam, type: "kinetic", source: self }, loop, run);
                 }
             }
             self.data.prg--;
@@ -597,14 +622,12 @@ export const turtle = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length >= 5) {
             self.data.prg = ((self.data.prg ?? 0) as number) + delta / this.upgrades.interval.effect(self.upgrades.interval ?? 0) * (inf.speed ?? 1);
             if (self.data.prg >= 1) {
-                let enm = loop.enemies[Math.floor(Math.random() * loop.enemies.length)];
-                dealDamage(enm, this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1));
-                if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                let enm = loop.enemies[Math.floor(random(run) * loop.enemies.length)];
+                dealDamage(enm, { amount: this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1), type: "kinetic", source: self }, loop, run);
                 self.data.prg--;
             }
         } else {
@@ -627,15 +650,13 @@ export const fox = {
         },
     },
     progress: self => self.data.prg,
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         if (loop.enemies.length) {
             let interval = 3 / (1 + 0.1 * ((self.data.count ?? 0) as number));
             self.data.prg = ((self.data.prg ?? 0) as number) + delta / interval * (inf.speed ?? 1);
             if (self.data.prg >= 1) {
-                let enm = loop.enemies[Math.floor(Math.random() * loop.enemies.length)];
-                dealDamage(enm, this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1));
-                if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                let enm = loop.enemies[Math.floor(random(run) * loop.enemies.length)];
+                dealDamage(enm, { amount: this.upgrades.damage.effect(self.upgrades.damage ?? 0) * (inf.damage ?? 1), type: "kinetic", source: self }, loop, run);
                 self.data.prg--;
                 self.data.count = ((self.data.count ?? 0) as number) + 1;
             }
@@ -659,11 +680,8 @@ export const freezer = {
             precision: 1, unit: "rad",
         },
     },
-    onEnemyExit(self, loop, enemy, inf) {
-        if (!enemy.effects.duality) delete enemy.effects.blaze;
-        enemy.effects.freeze = this.upgrades.duration.effect(self.upgrades.duration ?? 0) * inf.duration;
-        if (!enemy[BoardConnections]) enemy[BoardConnections] = {};
-        enemy[BoardConnections][loop[BoardID] ?? 0] = 0;
+    onEnemyExit(self, loop, enemy, inf, run) {
+        applyEffect(enemy, "freeze", this.upgrades.duration.effect(self.upgrades.duration ?? 0) * (inf.duration ?? 1), loop, run);
     },
 } as BuildingType;
 
@@ -680,11 +698,8 @@ export const igniter = {
             unit: "rad",
         },
     },
-    onEnemyEnter(self, loop, enemy, inf) {
-        if (!enemy.effects.duality) delete enemy.effects.freeze;
-        enemy.effects.blaze = this.upgrades.duration.effect(self.upgrades.duration ?? 0) * inf.duration;
-        if (!enemy[BoardConnections]) enemy[BoardConnections] = {};
-        enemy[BoardConnections][loop[BoardID] ?? 0] = 0;
+    onEnemyEnter(self, loop, enemy, inf, run) {
+        applyEffect(enemy, "blaze", this.upgrades.duration.effect(self.upgrades.duration ?? 0) * (inf.duration ?? 1), loop, run);
     },
 } as BuildingType;
 
@@ -701,10 +716,8 @@ export const pagoda = {
             unit: "rad",
         },
     },
-    onEnemyEnter(self, loop, enemy, inf) {
-        enemy.effects.duality = this.upgrades.duration.effect(self.upgrades.duration ?? 0) * inf.duration;
-        if (!enemy[BoardConnections]) enemy[BoardConnections] = {};
-        enemy[BoardConnections][loop[BoardID] ?? 0] = 0;
+    onEnemyEnter(self, loop, enemy, inf, run) {
+        applyEffect(enemy, "duality", this.upgrades.duration.effect(self.upgrades.duration ?? 0) * (inf.duration ?? 1), loop, run);
     },
 } as BuildingType;
 
@@ -721,17 +734,15 @@ export const decayer = {
             unit: "rad",
         },
     },
-    onEnemyEnter(self, loop, enemy, inf) {
-        enemy.effects.decay = this.upgrades.duration.effect(self.upgrades.duration ?? 0) * inf.duration;
-        if (!enemy[BoardConnections]) enemy[BoardConnections] = {};
-        enemy[BoardConnections][loop[BoardID] ?? 0] = 0;
+    onEnemyEnter(self, loop, enemy, inf, run) {
+        applyEffect(enemy, "decay", this.upgrades.duration.effect(self.upgrades.duration ?? 0) * (inf.duration ?? 1), loop, run);
     },
 } as BuildingType;
 
 export const splitter = {
     name: "Splitter",
     icon: "↔️", color: "#efafef", class: "effector",
-    description: "Enemies have a chance to split upon entering the loop the building is on.",
+    description: "Enemies have a chance to split upon entering the loop the building is on. Bosses can't be split.",
     baseCost: { energy: 300, },
     upgrades: {
         chance: { 
@@ -741,9 +752,11 @@ export const splitter = {
             unit: "%",
         },
     },
-    onEnemyEnter(self, loop, enemy, inf) {
-        if (Math.random() < this.upgrades.chance.effect(self.upgrades.chance ?? 0) / 100) {
+    onEnemyEnter(self, loop, enemy, inf, run) {
+        if (enemyTypes[enemy.type ?? "normal"]?.boss) return;
+        if (random(run) < this.upgrades.chance.effect(self.upgrades.chance ?? 0) / 100) {
             let clone: Enemy = {
+                type: enemy.type,
                 angle: enemy.angle,
                 speed: -enemy.speed,
                 health: (enemy.health /= 2),
@@ -752,12 +765,12 @@ export const splitter = {
                 effects: { ...enemy.effects },
                 loot: {},
             };
+            if (enemy.resistances) clone.resistances = { ...enemy.resistances };
             for (let loot in enemy.loot) {
                 clone.loot[loot] = (enemy.loot[loot] /= 2);
             }
             loop.enemies.push(clone);
-            if (!enemy[BoardConnections]) enemy[BoardConnections] = {};
-            enemy[BoardConnections][loop[BoardID] ?? 0] = 0;
+            run.events.emit("enemyAffected", enemy, loop);
         }
     },
 } as BuildingType;
@@ -781,12 +794,11 @@ export const stablizer = {
             unit: "rad",
         },
     },
-    onEnemyEnter(self, loop, enemy, inf) {
+    onEnemyEnter(self, loop, enemy, inf, run) {
         let min = this.upgrades.min.effect(self.upgrades.min ?? 0);
         if (enemy.lifetime > min) {
             enemy.lifetime = Math.max(min, enemy.lifetime - this.upgrades.amount.effect(self.upgrades.amount ?? 0));
-            if (!enemy[BoardConnections]) enemy[BoardConnections] = {};
-            enemy[BoardConnections][loop[BoardID] ?? 0] = 0;
+            run.events.emit("enemyAffected", enemy, loop);
         }
     },
 } as BuildingType;
@@ -807,7 +819,7 @@ export const tachyon = {
     progress(self){
         return ((self.upgrades.charge as number ?? 0) + 1 - (self.data.used as number ?? 0))
     },
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         self.sellValue = { energy: 0 };
         let char = (self.upgrades.charge as number ?? 0) + 1;
         if ((self.data.used as number ?? 0) < char) {
@@ -815,8 +827,7 @@ export const tachyon = {
                 let loss = Math.max(delta * 2, enm.lifetime);
                 enm.lifetime -= loss;
                 self.data.used = (self.data.used as number ?? 0) + loss / 15;
-                if (!enm[BoardConnections]) enm[BoardConnections] = {};
-                enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+                run.events.emit("enemyAffected", enm, loop);
             }
         }
     },
@@ -922,6 +933,42 @@ export const expander = {
     },
 } as BuildingType;
 
+export const beacon = {
+    name: "Beacon",
+    icon: "📡", color: "#afefcf", class: "router",
+    description: "Make enemies on adjacent loops more likely to cross into the loop it's on, and less likely to leave it.",
+    baseCost: { energy: 250, },
+    upgrades: {
+        pull: { 
+            name: "Pull", max: 5,
+            effect: (x) => 20 + x * 5, 
+            cost: (x) => ({ energy: 200 * 1.8 ** x }), 
+            unit: "%",
+        },
+    },
+    routing(self, loop) {
+        return this.upgrades.pull.effect(self.upgrades.pull ?? 0) / 100;
+    },
+} as BuildingType;
+
+export const repeller = {
+    name: "Repeller",
+    icon: "🚧", color: "#efcfaf", class: "router",
+    description: "Make enemies on adjacent loops less likely to cross into the loop it's on, and more likely to leave it.",
+    baseCost: { energy: 250, },
+    upgrades: {
+        push: { 
+            name: "Push", max: 5,
+            effect: (x) => 20 + x * 5, 
+            cost: (x) => ({ energy: 200 * 1.8 ** x }), 
+            unit: "%",
+        },
+    },
+    routing(self, loop) {
+        return -this.upgrades.push.effect(self.upgrades.push ?? 0) / 100;
+    },
+} as BuildingType;
+
 export const energizer = {
     name: "Energizer",
     icon: "⚡", color: "#efefaf", class: "generator",
@@ -935,12 +982,10 @@ export const energizer = {
             unit: "/rad",
         },
     },
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         let dam = this.upgrades.amount.effect(self.upgrades.amount ?? 0) * (inf.amount ?? 1);
         for (let enm of loop.enemies) {
-            enm.loot.energy = (enm.loot.energy ?? 0) + (dam * delta * Math.abs(enm.speed));
-            if (!enm[BoardConnections]) enm[BoardConnections] = {};
-            enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+            addLoot(enm, "energy", dam * delta * Math.abs(enm.speed), loop, run);
         }
     },
 } as BuildingType;
@@ -957,12 +1002,10 @@ export const multiplier = {
             cost: (x) => ({ energy: 500 * 3 ** x }), 
         },
     },
-    onEnemyEnter(self, loop, enemy, inf) {
+    onEnemyEnter(self, loop, enemy, inf, run) {
         let min = this.upgrades.threshold.effect(self.upgrades.threshold ?? 0) * (inf.threshold ?? 1);
         if (enemy.loot.energy <= min) {
-            enemy.loot.energy *= 2;
-            if (!enemy[BoardConnections]) enemy[BoardConnections] = {};
-            enemy[BoardConnections][loop[BoardID] ?? 0] = 0;
+            addLoot(enemy, "energy", enemy.loot.energy, loop, run);
         }
     },
 } as BuildingType;
@@ -980,12 +1023,10 @@ export const observer = {
             unit: "/s",
         },
     },
-    onUpdate(self, loop, delta, inf) {
+    onUpdate(self, loop, delta, inf, run) {
         let dam = this.upgrades.amount.effect(self.upgrades.amount ?? 0) * (inf.amount ?? 1);
         for (let enm of loop.enemies) {
-            enm.loot.info = (enm.loot.info ?? 0) + (dam * delta);
-            if (!enm[BoardConnections]) enm[BoardConnections] = {};
-            enm[BoardConnections][loop[BoardID] ?? 0] = 0;
+            addLoot(enm, "info", dam * delta, loop, run);
         }
     },
 } as BuildingType;
@@ -1002,12 +1043,46 @@ export const thinker = {
             cost: (x) => ({ energy: 200 * 3 ** x }), 
         },
     },
-    onEnemyEnter(self, loop, enemy, inf) {
+    onEnemyEnter(self, loop, enemy, inf, run) {
         let min = this.upgrades.threshold.effect(self.upgrades.threshold ?? 0) * (inf.threshold ?? 1);
         if (enemy.loot.info <= min) {
-            enemy.loot.info *= 2;
-            if (!enemy[BoardConnections]) enemy[BoardConnections] = {};
-            enemy[BoardConnections][loop[BoardID] ?? 0] = 0;
+            addLoot(enemy, "info", enemy.loot.info, loop, run);
         }
     },
-} as BuildingType;
\ No newline at end of file
+} as BuildingType;
+
+export const repairBay = {
+    name: "Repair Bay",
+    icon: "🩹", color: "#afefaf", class: "support",
+    description: "Slowly repairs your health over time. Can't raise health above its maximum.",
+    baseCost: { energy: 400, },
+    upgrades: {
+        rate: { 
+            name: "Rate", max: 5,
+            effect: (x) => 0.2 + x * 0.1, 
+            cost: (x) => ({ energy: 300 * 2 ** x }), 
+            precision: 1, unit: " HP/s",
+        },
+    },
+    onUpdate(self, loop, delta, inf, run) {
+        healRun(run, this.upgrades.rate.effect(self.upgrades.rate ?? 0) * (inf.rate ?? 1) * delta, self.type);
+    },
+} as BuildingType;
+
+export const shieldGenerator = {
+    name: "Shield Generator",
+    icon: "🛡️", color: "#afcfef", class: "support",
+    description: "Slowly charges a shield that absorbs stress damage before your health does.",
+    baseCost: { energy: 500, },
+    upgrades: {
+        rate: { 
+            name: "Rate", max: 5,
+            effect: (x) => 0.5 + x * 0.25, 
+            cost: (x) => ({ energy: 300 * 2 ** x }), 
+            precision: 2, unit: "/s",
+        },
+    },
+    onUpdate(self, loop, delta, inf, run) {
+        shieldRun(run, this.upgrades.rate.effect(self.upgrades.rate ?? 0) * (inf.rate ?? 1) * delta, self.type);
+    },
+} as BuildingType;
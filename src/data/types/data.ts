@@ -1,26 +1,48 @@
 import { Shape } from "features/boards/board";
 import { CoercableComponent } from "features/feature";
 import { NonPersistent, State } from "game/persistence";
+import type { Emitter } from "nanoevents";
 import { Ref } from "vue";
+import type { RunEvents } from "../events";
 
 export const BoardID = Symbol("BoardID");
 export const BoardConnections = Symbol("BoardConnections");
 
 export type Loop = {
     building?: Building;
+    terrain?: string;
     enemies: Enemy[];
     [BoardID]?: number;
 }
 
 export type Building = {
+    /** Tells the building apart from every other building in the run, since object references don't survive saving. */
+    id?: number;
     type: string;
     upgrades: { [key: string]: number };
     data: { [key: string]: State };
     sellValue: { [key: string]: number };
+    neutral?: boolean;
+    /** The ID of the specialization chosen for the building, if any. */
+    specialization?: string;
+    /** The tier the building has been merged up to. Unmerged buildings are tier 1. */
+    tier?: number;
+    /** What the building has done so far this run. */
+    stats?: BuildingStats;
     [BoardID]?: number;
 }
 
+/**
+ * A gate on the junction between two adjacent loops. Junctions without a gate are open.
+ * One-way gates only let enemies cross towards the loop `to`.
+ */
+export type JunctionGate = {
+    mode: "closed" | "oneway";
+    to?: string;
+}
+
 export type Enemy = {
+    type?: string,
     angle: number,
     lifetime: number,
     speed: number,
@@ -28,10 +50,169 @@ export type Enemy = {
     maxHealth: number,
     effects: { [key: string]: number };
     loot: { [key: string]: number };
+    resistances?: { [key in DamageType]?: number };
+    phase?: number;
+    /** The cycle a boss was spawned in, which its rewards scale with. */
+    cycle?: number;
+    /** The ID of the building that damaged the enemy last, which is credited with its kill. */
+    lastHitBy?: number;
     [BoardID]?: number;
     [BoardConnections]?: { [key: number]: number };
 }
 
+export type DamageType =
+    "kinetic" |
+    "thermal" |
+    "true"
+
+export type Damage = {
+    amount: number;
+    type: DamageType;
+    source: Building;
+    /** Whether the damage can be a critical hit. Damage can't crit unless it opts in. */
+    canCrit?: boolean;
+    ignoreEffects?: boolean;
+}
+
+export type DamageResult = {
+    dealt: number;
+    overkill: number;
+    crit: boolean;
+}
+
+export type RunConfig = {
+    mode: string;
+    enemyDecrease: number;
+    enemyHealthReduction: number;
+    buildingUpgrades: { [key: string]: { [key: string]: boolean } };
+    sellCooldownLength: number;
+    topology?: string;
+    map?: BoardMap;
+    expansion?: ExpansionMode;
+    healthRegen?: number;
+    /** The fastest game speed the player can pick, or 0 if they can't change it at all. Unlimited if left out. */
+    maxSpeed?: number;
+    undo?: boolean;
+}
+
+/**
+ * How new loops are added to the board when they're due.
+ * - `random`: Next to a random existing loop.
+ * - `choice`: The cycle timer stops while the player picks one of the free cells, or a random one once time runs out.
+ */
+export type ExpansionMode = 
+    "random" |
+    "choice"
+
+export type RunState = {
+    config: RunConfig;
+    seed: number;
+    rng: number;
+    tick: number;
+    accumulator: number;
+    loops: Record<string, Loop>;
+    gates: Record<string, JunctionGate>;
+    resources: { [key: string]: number };
+    upgrades: { [key: string]: number };
+    cycle: number;
+    cycleProgress: number;
+    health: number;
+    shield: number;
+    healthEvents: HealthEvent[];
+    /** The stats of every building type over the run, including buildings that have been sold since. */
+    buildingStats: Record<string, BuildingStats>;
+    stress: number;
+    loopStress: Record<string, number>;
+    lifetime: number;
+    sellCooldown: number;
+    buildingFactor: number;
+    buildingFactors: Record<string, number>;
+    /** The ID the next building placed gets. */
+    nextBuildingId: number;
+    speed: number;
+    undoStack: UndoEntry[];
+    expansionCandidates: string[];
+    expansionTimer: number;
+    events: Emitter<RunEvents>;
+}
+
+/**
+ * What a building, or every building of a type, has done over a run.
+ */
+export type BuildingStats = {
+    /** The damage dealt to enemies. */
+    damage: number;
+    /** The enemies that died after it was the last building to damage them. */
+    kills: number;
+    /** The enemies it dealt the final blow to. */
+    lastHits: number;
+    /** The status effects applied to enemies. */
+    effects: number;
+    /** The time spent on the board, in seconds of game time. */
+    time: number;
+    /** The resources added to enemies' loot, by resource ID. */
+    generated: { [key: string]: number };
+}
+
+/**
+ * An entry of a run's health timeline, covering every change from the same cause that happened close together.
+ */
+export type HealthEvent = {
+    /** What changed the health, either "stress", "regen" or the ID of the building responsible. */
+    cause: string;
+    /** The tick the first change happened on. */
+    start: number;
+    /** The tick the last change happened on. */
+    end: number;
+    /** The total change in health. */
+    health: number;
+    /** The total change in shield. */
+    shield: number;
+    /** The run's health right after the last change. */
+    healthAfter: number;
+}
+
+/**
+ * A placement or upgrade that can still be undone, with everything needed to restore the run to how it was before it.
+ */
+export type UndoEntry = {
+    type: "place" | "upgrade";
+    loop: string;
+    /** The ID of the building the entry was recorded for. It can't be undone once that building has left the loop. */
+    target?: number;
+    /** The run's lifetime when the entry stops being undoable. */
+    expires: number;
+    /** The resources spent on it. */
+    cost: Record<string, number>;
+    /** A copy of the building on the loop from before an upgrade. */
+    building?: Building;
+}
+
+export type RunAction =
+    { type: "place", loop: string, building: string } |
+    { type: "upgrade", loop: string, upgrade: string, amount?: number } |
+    { type: "sell", loop: string } |
+    { type: "move", loop: string, to: string } |
+    { type: "specialize", loop: string, specialization: string } |
+    { type: "merge", loop: string, other: string } |
+    { type: "gate", loop: string, to: string } |
+    { type: "expand", loop: string } |
+    { type: "speed", speed: number } |
+    { type: "pause", paused: boolean } |
+    { type: "infoUpgrade", upgrade: string } |
+    { type: "undo" }
+
+export type RunInput = RunAction & { tick: number }
+
+export type Replay = {
+    config: RunConfig;
+    seed: number;
+    resources: { [key: string]: number };
+    inputs: RunInput[];
+    tick: number;
+    cycle: number;
+}
+
 export type BuildingType = {
     name: string;
     icon: string;
@@ -40,13 +221,92 @@ export type BuildingType = {
     description: CoercableComponent;
     baseCost: { [key: string]: number };
     upgrades: { [key: string]: BuildingUpgrade };
+    /** A one-time choice between specializations, offered once the upgrade `upgrade` is maxed. */
+    specializations?: { upgrade: string, choices: { [key: string]: BuildingSpecialization } };
+    /** The tiers two identical buildings can be merged into, starting from tier 2. */
+    tiers?: BuildingTier[];
 
-    onUpdate?: (self: Building, loop: Loop, delta: number, influences: { [key: string]: number }) => void;
-    onEnemyEnter?: (self: Building, loop: Loop, enemy: Enemy, influences: { [key: string]: number }) => void;
-    onEnemyExit?: (self: Building, loop: Loop, enemy: Enemy, influences: { [key: string]: number }) => void;
+    onUpdate?: (self: Building, loop: Loop, delta: number, influences: { [key: string]: number }, run: RunState) => void;
+    onEnemyEnter?: (self: Building, loop: Loop, enemy: Enemy, influences: { [key: string]: number }, run: RunState) => void;
+    onEnemyExit?: (self: Building, loop: Loop, enemy: Enemy, influences: { [key: string]: number }, run: RunState) => void;
 
     progress?: (self: Building) => void;
     influences?: (self: Building, loop: Loop) => { [key: string]: number };
+    influence?: Influence;
+    routing?: (self: Building, loop: Loop) => number;
+}
+
+export type EnemyType = {
+    name: string;
+    description?: string;
+    color: string;
+    size?: number;
+
+    minCycle: number;
+    weight: number;
+    health?: number;
+    speed?: number;
+    loot?: number;
+    resistances?: { [key in DamageType]?: number };
+    effectImmune?: boolean;
+    boss?: boolean;
+    phases?: BossPhase[];
+    bonusLoot?: { [key: string]: number };
+
+    onSpawn?: (self: Enemy, loop: Loop, run: RunState) => void;
+    onUpdate?: (self: Enemy, loop: Loop, delta: number, run: RunState) => void;
+    onDeath?: (self: Enemy, loop: Loop, run: RunState) => void;
+}
+
+export type BossPhase = {
+    threshold: number;
+    speed?: number;
+    minions?: number;
+    cleanse?: boolean;
+}
+
+/**
+ * The waves of a game mode, as a list of ranges sorted by the cycle they start on.
+ * Each range lasts until the next one starts.
+ */
+export type WaveDefinition = WaveRange[];
+
+/**
+ * How the enemies of each cycle in a range are spawned.
+ * Count, health and speed are functions of the cycle, so they can be previewed for any cycle.
+ */
+export type WaveRange = {
+    from: number;
+    count: (cycle: number) => number;
+    health: (cycle: number) => number;
+    speed: (cycle: number) => number;
+    unlockRate?: number;
+    enemies?: { [key: string]: number };
+}
+
+/**
+ * How loops are laid out and connected on the board. Loop IDs are coordinates on the topology's own grid.
+ * Junction angles are in turns, starting from the bottom of a loop and going towards its right.
+ */
+export type Topology = {
+    name: string;
+    neighbors: [number, number][];
+    junctions: number[];
+    position: (x: number, y: number) => { x: number, y: number };
+}
+
+/**
+ * A handcrafted starting layout for a run. Its loops exist from the start, with the starting enemy on `0x0` or the first loop.
+ * Neutral buildings are pre-placed on loops and can't be sold.
+ * New loops are taken from `spawnOrder` first, and never spawn on blocked cells.
+ */
+export type BoardMap = {
+    name: string;
+    topology: string;
+    loops: string[];
+    blocked: string[];
+    buildings: { [key: string]: string };
+    spawnOrder: string[];
 }
 
 export type BuildingUpgrade = {
@@ -58,13 +318,98 @@ export type BuildingUpgrade = {
     unit?: string;
 }
 
+export type BuildingSpecialization = {
+    name: string;
+    description: string;
+}
+
+export type BuildingTier = {
+    name: string;
+    icon: string;
+    color: string;
+    /** Multipliers applied to the building on top of its influences, e.g. `damage`. */
+    multipliers: { [key: string]: number };
+}
+
 export type BuildingClass = 
     "damager" |
     "effector" |
     "influencer" |
-    "generator"
+    "router" |
+    "generator" |
+    "support"
     
 
+export type LoopTerrain = {
+    name: string;
+    icon: string;
+    color: string;
+    description: string;
+    weight: number;
+
+    movement?: number;
+    loot?: { [key: string]: number };
+    stress?: number;
+    blocksInfluence?: boolean;
+}
+
+export type StatusEffect = {
+    name: string;
+    color: string;
+    movement?: number;
+    damageTaken?: number;
+    stacking: EffectStacking;
+    exclusive?: string[];
+    allowsExclusive?: boolean;
+
+    onTick?: (enemy: Enemy, distance: number, run: RunState) => void;
+}
+
+/**
+ * How an effect's duration is combined with the one it already has when it's applied again.
+ * - `replace`: The new duration replaces the old one.
+ * - `max`: The longer of the two durations is kept.
+ * - `add`: The durations are added together.
+ */
+export type EffectStacking = 
+    "replace" |
+    "max" |
+    "add"
+
+/**
+ * Which loops an influencer affects, relative to the loop it's on.
+ * - `adjacent`: Every loop next to it.
+ * - `diagonal`: Every loop touching it through a corner, i.e. two adjacent steps in neighbouring directions.
+ * - `radius`: Every loop up to `radius` adjacent steps away.
+ * - `line`: Every loop in a straight line from it, in any adjacent direction.
+ */
+export type InfluenceShape =
+    { type: "adjacent" } |
+    { type: "diagonal" } |
+    { type: "radius", radius: number } |
+    { type: "line" }
+
+/**
+ * How an influencer's multipliers are combined with others' for the same attribute.
+ * - `multiply`: The multipliers are multiplied together.
+ * - `add`: The bonuses of the multipliers are added together.
+ * - `max`: Only the highest multiplier counts.
+ * Each group is combined first, then the results of every group are multiplied together.
+ */
+export type InfluenceStacking =
+    "multiply" |
+    "add" |
+    "max"
+
+export type Influence = {
+    shape: InfluenceShape;
+    stacking: InfluenceStacking;
+    /** The building classes it affects. Affects every building if left out. */
+    targets?: BuildingClass[];
+    /** The highest an attribute it affects can be multiplied by in total. */
+    cap?: number;
+}
+
 export type Objective = {
     name: string;
     description: string;
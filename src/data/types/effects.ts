@@ -0,0 +1,46 @@
+import { StatusEffect } from "./data";
+
+export const stun = {
+    name: "Stunned",
+    color: "#efefaf",
+    movement: 0.0005,
+    stacking: "replace",
+} as StatusEffect;
+
+export const freeze = {
+    name: "Freezing",
+    color: "#afcfef",
+    movement: 0.5,
+    stacking: "replace",
+    exclusive: ["blaze"],
+} as StatusEffect;
+
+export const blaze = {
+    name: "Blazing",
+    color: "#efafaf",
+    movement: 2,
+    damageTaken: 4,
+    stacking: "replace",
+    exclusive: ["freeze"],
+} as StatusEffect;
+
+export const swamped = {
+    name: "Swamped",
+    color: "#afefaf",
+    movement: 0.5,
+    stacking: "max",
+} as StatusEffect;
+
+export const decay = {
+    name: "Decay",
+    color: "#cfafef",
+    damageTaken: 2,
+    stacking: "replace",
+} as StatusEffect;
+
+export const duality = {
+    name: "Duality",
+    color: "#efefef",
+    stacking: "replace",
+    allowsExclusive: true,
+} as StatusEffect;
@@ -0,0 +1,107 @@
+import { Enemy, EnemyType } from "./data";
+
+export const normal = {
+    name: "Drone",
+    color: "#ff5c5a",
+    minCycle: 0, weight: 20,
+} as EnemyType;
+
+export const armored = {
+    name: "Armored",
+    color: "#9f9f9f", size: 10,
+    description: "Tough and slow. Resists kinetic damage.",
+    minCycle: 8, weight: 3,
+    health: 1.5, speed: 0.75, loot: 1.5,
+    resistances: { kinetic: 0.5 },
+} as EnemyType;
+
+export const shielded = {
+    name: "Shielded",
+    color: "#5cafff",
+    description: "Resists thermal damage.",
+    minCycle: 12, weight: 3,
+    health: 1.2, loot: 1.25,
+    resistances: { thermal: 0.6 },
+} as EnemyType;
+
+export const swift = {
+    name: "Swift",
+    color: "#ffdf5c", size: 6,
+    description: "Fast but fragile.",
+    minCycle: 5, weight: 4,
+    health: 0.6, speed: 1.75,
+} as EnemyType;
+
+export const regenerating = {
+    name: "Regenerating",
+    color: "#5cff8a",
+    description: "Recovers 5% of its health every second.",
+    minCycle: 15, weight: 2,
+    loot: 1.5,
+    onUpdate(self, loop, delta) {
+        self.health = Math.min(self.maxHealth, self.health + self.maxHealth * 0.05 * delta);
+    },
+} as EnemyType;
+
+export const healer = {
+    name: "Healer",
+    color: "#ff8adf",
+    description: "Heals other enemies on its loop by 3% of their health every second.",
+    minCycle: 20, weight: 1,
+    health: 0.8, loot: 2,
+    onUpdate(self, loop, delta) {
+        for (let enm of loop.enemies) {
+            if (enm != self && enm.health > 0) {
+                enm.health = Math.min(enm.maxHealth, enm.health + enm.maxHealth * 0.03 * delta);
+            }
+        }
+    },
+} as EnemyType;
+
+export const splitting = {
+    name: "Splitting",
+    color: "#cf8aff", size: 10,
+    description: "Splits into two smaller enemies when defeated.",
+    minCycle: 10, weight: 2,
+    onDeath(self, loop, run) {
+        let id = Object.keys(run.loops).find(id => run.loops[id] == loop)!;
+        for (let direction of [1, -1]) {
+            let child: Enemy = {
+                type: "normal",
+                angle: self.angle,
+                lifetime: self.lifetime,
+                speed: self.speed * direction,
+                health: self.maxHealth / 4,
+                maxHealth: self.maxHealth / 4,
+                effects: {},
+                loot: {},
+            };
+            loop.enemies.push(child);
+            run.events.emit("enemySpawned", child, id);
+        }
+    },
+} as EnemyType;
+
+export const immune = {
+    name: "Immune",
+    color: "#efefef",
+    description: "Can't be affected by status effects.",
+    minCycle: 18, weight: 2,
+    loot: 1.25,
+    effectImmune: true,
+} as EnemyType;
+
+export const warden = {
+    name: "The Warden",
+    color: "#ff2f6f", size: 24,
+    description: "Guards every 10th cycle. Grows more desperate as it loses health.",
+    boss: true, minCycle: 0, weight: 1,
+    health: 25, speed: 0.5, loot: 10,
+    resistances: { kinetic: 0.2, thermal: 0.2 },
+    bonusLoot: { info: 50 },
+    phases: [
+        { threshold: 0.75, speed: 2 },
+        { threshold: 0.5, minions: 4, cleanse: true },
+        { threshold: 0.25, speed: 1.5, minions: 8, cleanse: true },
+    ],
+} as EnemyType;
@@ -0,0 +1,41 @@
+import { LoopTerrain } from "./data";
+
+export const current = {
+    name: "Fast Current",
+    icon: "🌊", color: "#5cafff",
+    description: "Enemies move 50% faster on this loop.",
+    weight: 3,
+    movement: 1.5,
+} as LoopTerrain;
+
+export const swamp = {
+    name: "Swamp",
+    icon: "🌿", color: "#afefaf",
+    description: "Enemies move 40% slower on this loop.",
+    weight: 3,
+    movement: 0.6,
+} as LoopTerrain;
+
+export const vein = {
+    name: "Rich Vein",
+    icon: "💎", color: "#efefaf",
+    description: "Enemies defeated on this loop drop 50% more Energy.",
+    weight: 2,
+    loot: { energy: 1.5 },
+} as LoopTerrain;
+
+export const unstable = {
+    name: "Unstable",
+    icon: "⚠️", color: "#ff8a5c",
+    description: "Enemies on this loop count double toward stress.",
+    weight: 2,
+    stress: 2,
+} as LoopTerrain;
+
+export const nullField = {
+    name: "Null Field",
+    icon: "🚫", color: "#cfafef",
+    description: "Influencer buildings have no effect on this loop.",
+    weight: 2,
+    blocksInfluence: true,
+} as LoopTerrain;
@@ -0,0 +1,15 @@
+import { Topology } from "./data";
+
+export const square = {
+    name: "Square",
+    neighbors: [[0, 1], [1, 0], [0, -1], [-1, 0]],
+    junctions: [0, 1 / 4, 2 / 4, 3 / 4],
+    position: (x, y) => ({ x, y }),
+} as Topology;
+
+export const hex = {
+    name: "Hex",
+    neighbors: [[0, 1], [1, 0], [1, -1], [0, -1], [-1, 0], [-1, 1]],
+    junctions: [1 / 12, 3 / 12, 5 / 12, 7 / 12, 9 / 12, 11 / 12],
+    position: (x, y) => ({ x: x + y / 2, y: y * Math.sqrt(3) / 2 }),
+} as Topology;
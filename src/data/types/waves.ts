@@ -0,0 +1,32 @@
+import { WaveDefinition } from "./data";
+
+function earlyCount(cycle: number) {
+    return 1 + 0.1 * cycle + 0.01 * cycle * cycle;
+}
+
+function lateCount(cycle: number) {
+    return 1 + 0.5 * cycle;
+}
+
+function health(factor: number) {
+    return (cycle: number) => 18 * (1 + 0.05 * (cycle * factor) ** factor) * 1.02 ** cycle;
+}
+
+function speed(factor: number) {
+    return (cycle: number) => 1 + 0.05 * cycle * factor;
+}
+
+export const standard = [
+    { from: 0, count: earlyCount, health: health(1), speed: speed(1) },
+    { from: 40, count: lateCount, health: health(1), speed: speed(1) },
+] as WaveDefinition;
+
+export const boosted = [
+    { from: 0, count: earlyCount, health: health(1.5), speed: speed(1.5), unlockRate: 1.5 },
+    { from: 40, count: lateCount, health: health(1.5), speed: speed(1.5), unlockRate: 1.5 },
+] as WaveDefinition;
+
+export const hardcore = [
+    { from: 0, count: earlyCount, health: health(2), speed: speed(2), unlockRate: 2 },
+    { from: 40, count: lateCount, health: health(2), speed: speed(2), unlockRate: 2 },
+] as WaveDefinition;
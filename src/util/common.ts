@@ -18,6 +18,20 @@ export function isFunction<T, S extends ReadonlyArray<unknown>, R>(
     return typeof functionOrValue === "function";
 }
 
+export function chooseUniqueElements<T>(arr: T[], n: number, random: () => number = Math.random): T[] {
+    if (n > arr.length) {
+      throw new Error("n cannot be greater than the number of unique elements in the array.");
+    }
+  
+    const shuffled = arr.slice(); // Create a copy of the array
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]; // Swap elements
+    }
+  
+    return shuffled.slice(0, n); // Return the first n elements
+}
+
 export enum Direction {
     Up = "Up",
     Down = "Down",
@@ -0,0 +1,25 @@
+/** Anything carrying the state of a seeded random number generator. The state is a single number so it can be persisted. */
+export interface Seeded {
+    rng: number;
+}
+
+/** Creates a new random seed. */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+}
+
+/** Formats a seed for display, as 8 hexadecimal digits. */
+export function formatSeed(seed: number): string {
+    return (seed >>> 0).toString(16).toUpperCase().padStart(8, "0");
+}
+
+/**
+ * Returns a pseudo-random number in [0, 1) and advances the generator (mulberry32).
+ * @param source The object holding the generator state.
+ */
+export function random(source: Seeded): number {
+    let t = (source.rng = (source.rng + 0x6d2b79f5) | 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
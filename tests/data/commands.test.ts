@@ -0,0 +1,263 @@
+// @vitest-environment node
+import { buyInfoUpgrade, getBuildingCost, getMaxAffordableLevels, getMoveCost, getRemainingLevels, getUpgradeCost, maxBulkLevels, mergeBuildings, moveBaseCost, moveBuilding, placeBuilding, sellBuilding, setSpeed, specializeBuilding, undo, undoLength, undoWindow, upgradeBuilding } from "data/commands";
+import { createRunState, spawnEnemy, step, tickLength } from "data/simulation";
+import { pins } from "data/types/buildings";
+import { RunConfig, RunState } from "data/types/data";
+import { beforeEach, describe, expect, test } from "vitest";
+
+const config: RunConfig = {
+    mode: "standard",
+    enemyDecrease: 0,
+    enemyHealthReduction: 0,
+    buildingUpgrades: {},
+    sellCooldownLength: 60,
+};
+
+function usePins(state: RunState, id: string) {
+    const loop = state.loops[id];
+    const building = loop.building!;
+    const enemy = spawnEnemy(state, "normal", id);
+    for (let i = 0; i < 20; i++) pins.onEnemyEnter!(building, loop, enemy, {}, state);
+}
+
+describe("Commands", () => {
+    let state: RunState;
+    beforeEach(() => {
+        state = createRunState(config, { energy: 1000 }, 727);
+        state.loops["1x0"] = { enemies: [] };
+    });
+
+    test("Places buildings and scales their cost", () => {
+        expect(placeBuilding(state, "0x0", "beamer")).toEqual({ ok: true });
+        expect(state.loops["0x0"].building?.type).toBe("beamer");
+        expect(state.resources.energy).toBe(900);
+        expect(state.loops["0x0"].building?.sellValue).toEqual({ energy: 75 });
+        expect(getBuildingCost(state, "beamer").energy).toBeCloseTo(100 * 1.1 ** 2);
+    });
+
+    test("Rejects invalid placements without changing anything", () => {
+        placeBuilding(state, "0x0", "beamer");
+        const before = JSON.stringify(state);
+        expect(placeBuilding(state, "0x0", "beamer")).toEqual({ ok: false, error: "occupied" });
+        expect(placeBuilding(state, "5x5", "beamer")).toEqual({ ok: false, error: "notFound" });
+        expect(placeBuilding(state, "1x0", "nothing")).toEqual({ ok: false, error: "notFound" });
+        state.resources.energy = 0;
+        expect(placeBuilding(state, "1x0", "beamer")).toEqual({ ok: false, error: "cantAfford" });
+        state.resources.energy = 900;
+        expect(JSON.stringify(state)).toBe(before);
+    });
+
+    test("Upgrades buildings up to their maximum", () => {
+        expect(upgradeBuilding(state, "0x0", "factor")).toEqual({ ok: false, error: "empty" });
+        placeBuilding(state, "0x0", "beacon");
+        state.resources.energy = 1e9;
+        for (let i = 0; i < 4; i++) expect(upgradeBuilding(state, "0x0", "pull").ok).toBe(true);
+        expect(state.loops["0x0"].building?.upgrades.pull).toBe(4);
+        expect(upgradeBuilding(state, "0x0", "pull")).toEqual({ ok: false, error: "maxed" });
+        expect(upgradeBuilding(state, "0x0", "push")).toEqual({ ok: false, error: "notFound" });
+    });
+
+    test("Sells buildings with a cooldown", () => {
+        placeBuilding(state, "0x0", "beamer");
+        placeBuilding(state, "1x0", "beamer");
+        expect(sellBuilding(state, "0x0")).toEqual({ ok: true });
+        expect(state.loops["0x0"].building).toBeUndefined();
+        expect(state.buildingFactor).toBe(1);
+        expect(state.sellCooldown).toBe(60);
+        expect(sellBuilding(state, "1x0")).toEqual({ ok: false, error: "onCooldown" });
+        expect(sellBuilding(state, "0x0")).toEqual({ ok: false, error: "empty" });
+
+        state.sellCooldown = 0;
+        state.loops["1x0"].building!.neutral = true;
+        expect(sellBuilding(state, "1x0")).toEqual({ ok: false, error: "notAllowed" });
+    });
+
+    test("Limits speed changes by the run config", () => {
+        expect(setSpeed(state, 4)).toEqual({ ok: true });
+        expect(state.speed).toBe(4);
+
+        state.config = { ...config, maxSpeed: 2 };
+        expect(setSpeed(state, 4)).toEqual({ ok: false, error: "notAllowed" });
+        expect(setSpeed(state, 2)).toEqual({ ok: true });
+
+        state.config = { ...config, maxSpeed: 0 };
+        expect(setSpeed(state, 1)).toEqual({ ok: false, error: "notAllowed" });
+        expect(state.speed).toBe(2);
+    });
+
+    test("Buys Info upgrades", () => {
+        expect(buyInfoUpgrade(state, "stress")).toEqual({ ok: false, error: "cantAfford" });
+        state.resources.info = 100;
+        expect(buyInfoUpgrade(state, "stress")).toEqual({ ok: true });
+        expect(state.upgrades.stress).toBe(1);
+        expect(state.resources.info).toBe(50);
+        expect(buyInfoUpgrade(state, "nothing")).toEqual({ ok: false, error: "notFound" });
+    });
+
+    test("Undoes placements and upgrades", () => {
+        state.config = { ...config, undo: true };
+        placeBuilding(state, "0x0", "beacon");
+        const placed = JSON.stringify(state.loops["0x0"].building);
+        upgradeBuilding(state, "0x0", "pull");
+        expect(undo(state)).toEqual({ ok: true });
+        expect(JSON.stringify(state.loops["0x0"].building)).toBe(placed);
+        expect(undo(state)).toEqual({ ok: true });
+        expect(state.loops["0x0"].building).toBeUndefined();
+        expect(state.resources.energy).toBe(1000);
+        expect(getBuildingCost(state, "beacon")).toEqual(getBuildingCost(createRunState(config, {}, 727), "beacon"));
+        expect(undo(state)).toEqual({ ok: false, error: "nothingToUndo" });
+    });
+
+    test("Undoes after the run is saved and loaded", () => {
+        state.config = { ...config, undo: true };
+        placeBuilding(state, "0x0", "beacon");
+        upgradeBuilding(state, "0x0", "pull");
+        state.loops = JSON.parse(JSON.stringify(state.loops));
+        state.undoStack = JSON.parse(JSON.stringify(state.undoStack));
+        expect(undo(state)).toEqual({ ok: true });
+        expect(state.loops["0x0"].building?.upgrades.pull ?? 0).toBe(0);
+        expect(undo(state)).toEqual({ ok: true });
+        expect(state.loops["0x0"].building).toBeUndefined();
+    });
+
+    test("Limits what can be undone", () => {
+        expect(placeBuilding(state, "0x0", "beamer")).toEqual({ ok: true });
+        expect(undo(state)).toEqual({ ok: false, error: "notAllowed" });
+
+        state.config = { ...config, undo: true };
+        state.resources.energy = 1e9;
+        placeBuilding(state, "1x0", "beamer");
+        for (let i = 0; i <= 60 * undoWindow; i++) step(state, tickLength);
+        expect(undo(state)).toEqual({ ok: false, error: "nothingToUndo" });
+
+        for (let i = 0; i < undoLength + 2; i++) upgradeBuilding(state, "1x0", "damage");
+        expect(state.undoStack).toHaveLength(undoLength);
+        sellBuilding(state, "1x0");
+        expect(state.undoStack).toHaveLength(0);
+    });
+
+    test("Can't undo buildings that have left their loop", () => {
+        state.config = { ...config, undo: true };
+        state.resources.energy = 1e9;
+        placeBuilding(state, "0x0", "pins");
+        usePins(state, "0x0");
+        expect(state.loops["0x0"].building).toBeUndefined();
+        const factor = state.buildingFactor;
+        const energy = state.resources.energy;
+        expect(undo(state)).toEqual({ ok: false, error: "nothingToUndo" });
+        expect(state.undoStack).toHaveLength(1);
+        expect(state.buildingFactor).toBe(factor);
+        expect(state.resources.energy).toBe(energy);
+
+        placeBuilding(state, "1x0", "pins");
+        usePins(state, "1x0");
+        placeBuilding(state, "1x0", "beamer");
+        expect(undo(state)).toEqual({ ok: true });
+        expect(undo(state)).toEqual({ ok: false, error: "nothingToUndo" });
+        expect(state.loops["1x0"].building).toBeUndefined();
+    });
+
+    test("Moves buildings with their upgrades", () => {
+        placeBuilding(state, "0x0", "igniter");
+        state.resources.energy = 1e9;
+        upgradeBuilding(state, "0x0", "duration");
+        state.loops["0x0"].building!.data.test = 1;
+        expect(getMoveCost(state, "0x0").energy).toBeCloseTo(moveBaseCost + 350 / 4);
+        spawnEnemy(state, "normal", "1x0");
+
+        expect(moveBuilding(state, "0x0", "1x0")).toEqual({ ok: true });
+        expect(state.loops["0x0"].building).toBeUndefined();
+        expect(state.loops["1x0"].building?.upgrades).toEqual({ duration: 1 });
+        expect(state.loops["1x0"].building?.data.test).toBe(1);
+        expect(state.loops["1x0"].enemies[0].effects.blaze).toBeGreaterThan(0);
+        expect(state.resources.energy).toBeCloseTo(1e9 - 350 - moveBaseCost - 350 / 4);
+    });
+
+    test("Rejects invalid moves", () => {
+        placeBuilding(state, "0x0", "beamer");
+        expect(moveBuilding(state, "1x0", "0x0")).toEqual({ ok: false, error: "empty" });
+        placeBuilding(state, "1x0", "beamer");
+        expect(moveBuilding(state, "0x0", "1x0")).toEqual({ ok: false, error: "occupied" });
+        expect(moveBuilding(state, "0x0", "5x5")).toEqual({ ok: false, error: "notFound" });
+        state.loops["2x0"] = { enemies: [] };
+        state.resources.energy = 0;
+        expect(moveBuilding(state, "0x0", "2x0")).toEqual({ ok: false, error: "cantAfford" });
+    });
+
+    test("Buys upgrade levels in bulk", () => {
+        placeBuilding(state, "0x0", "beamer");
+        state.resources.energy = 50 + 60;
+        expect(getUpgradeCost(state, "0x0", "damage", 2).energy).toBeCloseTo(110);
+        expect(getMaxAffordableLevels(state, "0x0", "damage")).toBe(2);
+        expect(upgradeBuilding(state, "0x0", "damage", 3)).toEqual({ ok: false, error: "cantAfford" });
+        expect(upgradeBuilding(state, "0x0", "damage", 2)).toEqual({ ok: true });
+        expect(state.loops["0x0"].building?.upgrades.damage).toBe(2);
+        expect(state.resources.energy).toBeCloseTo(0);
+        expect(state.loops["0x0"].building?.sellValue.energy).toBeCloseTo(75 + 55);
+    });
+
+    test("Respects upgrade maximums when buying in bulk", () => {
+        placeBuilding(state, "0x0", "beacon");
+        state.resources.energy = 1e9;
+        expect(getRemainingLevels(state, "0x0", "pull")).toBe(4);
+        expect(getMaxAffordableLevels(state, "0x0", "pull")).toBe(4);
+        expect(upgradeBuilding(state, "0x0", "pull", 10)).toEqual({ ok: false, error: "maxed" });
+        expect(upgradeBuilding(state, "0x0", "pull", 4)).toEqual({ ok: true });
+        expect(getMaxAffordableLevels(state, "0x0", "pull")).toBe(0);
+    });
+
+    test("Buys constant-cost upgrades in bulk", () => {
+        placeBuilding(state, "0x0", "beamer");
+        state.loops["0x0"].building!.type = "tachyon";
+        state.resources.energy = 1050;
+        expect(getMaxAffordableLevels(state, "0x0", "charge")).toBe(10);
+        expect(getUpgradeCost(state, "0x0", "charge", 10).energy).toBe(1000);
+        state.resources.energy = 1e9;
+        expect(getMaxAffordableLevels(state, "0x0", "charge")).toBe(maxBulkLevels);
+    });
+
+    test("Specializes buildings once their upgrade is maxed", () => {
+        state.config = { ...config, undo: true };
+        placeBuilding(state, "0x0", "splatter");
+        expect(specializeBuilding(state, "0x0", "sticky")).toEqual({ ok: false, error: "locked" });
+        state.resources.energy = 1e9;
+        upgradeBuilding(state, "0x0", "interval", 4);
+        expect(specializeBuilding(state, "0x0", "piercing")).toEqual({ ok: false, error: "notFound" });
+        expect(specializeBuilding(state, "0x0", "sticky")).toEqual({ ok: true });
+        expect(state.loops["0x0"].building?.specialization).toBe("sticky");
+        expect(specializeBuilding(state, "0x0", "scattering")).toEqual({ ok: false, error: "notAllowed" });
+        expect(state.undoStack).toHaveLength(0);
+    });
+
+    test("Merges adjacent identical buildings into the next tier", () => {
+        state.resources.energy = 1e9;
+        placeBuilding(state, "0x0", "beamer");
+        placeBuilding(state, "1x0", "beamer");
+        upgradeBuilding(state, "0x0", "damage", 2);
+        upgradeBuilding(state, "1x0", "damage", 3);
+        upgradeBuilding(state, "1x0", "interval", 1);
+        let sellValue = state.loops["0x0"].building!.sellValue.energy + state.loops["1x0"].building!.sellValue.energy;
+
+        expect(mergeBuildings(state, "0x0", "1x0")).toEqual({ ok: true });
+        expect(state.loops["1x0"].building).toBeUndefined();
+        expect(state.loops["0x0"].building).toMatchObject({ tier: 2, upgrades: { damage: 3, interval: 1 } });
+        expect(state.loops["0x0"].building?.sellValue.energy).toBeCloseTo(sellValue);
+        expect(state.buildingFactor).toBe(1);
+    });
+
+    test("Rejects invalid merges", () => {
+        state.loops["2x0"] = { enemies: [] };
+        placeBuilding(state, "0x0", "beamer");
+        expect(mergeBuildings(state, "0x0", "1x0")).toEqual({ ok: false, error: "empty" });
+        state.resources.energy = 1e9;
+        placeBuilding(state, "1x0", "splatter");
+        placeBuilding(state, "2x0", "beamer");
+        expect(mergeBuildings(state, "0x0", "1x0")).toEqual({ ok: false, error: "notAllowed" });
+        expect(mergeBuildings(state, "0x0", "2x0")).toEqual({ ok: false, error: "notAllowed" });
+        expect(mergeBuildings(state, "0x0", "0x0")).toEqual({ ok: false, error: "notFound" });
+
+        state.loops["0x0"].building = { type: "freezer", upgrades: {}, data: {}, sellValue: {} };
+        state.loops["1x0"].building = { type: "freezer", upgrades: {}, data: {}, sellValue: {} };
+        expect(mergeBuildings(state, "0x0", "1x0")).toEqual({ ok: false, error: "maxed" });
+    });
+});
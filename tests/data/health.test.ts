@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { damageRun, healRun, maxHealth, maxShield, shieldRun, timelineLength, timelineMergeWindow } from "data/health";
+import { createRunState, placeBuilding, step, tickLength } from "data/simulation";
+import { RunConfig, RunState } from "data/types/data";
+import { beforeEach, describe, expect, test } from "vitest";
+
+const config: RunConfig = {
+    mode: "standard",
+    enemyDecrease: 0,
+    enemyHealthReduction: 0,
+    buildingUpgrades: {},
+    sellCooldownLength: 60,
+};
+
+describe("Health", () => {
+    let run: RunState;
+    beforeEach(() => {
+        run = createRunState(config, {}, 727);
+    });
+
+    test("Shields absorb damage before health", () => {
+        expect(shieldRun(run, 10, "test")).toBe(10);
+        expect(damageRun(run, 15, "stress")).toBe(5);
+        expect(run.shield).toBe(0);
+        expect(run.health).toBe(maxHealth - 5);
+    });
+
+    test("Caps health and shield", () => {
+        expect(healRun(run, 10, "regen")).toBe(0);
+        expect(shieldRun(run, maxShield * 2, "test")).toBe(maxShield);
+        expect(run.shield).toBe(maxShield);
+    });
+
+    test("Only reports health lost past the shield", () => {
+        let lost: [number, string][] = [];
+        run.events.on("healthLost", (amount, cause) => lost.push([amount, cause]));
+        shieldRun(run, 5, "test");
+        damageRun(run, 5, "stress");
+        damageRun(run, 5, "stress");
+        expect(lost).toEqual([[5, "stress"]]);
+    });
+
+    test("Merges nearby changes from the same cause in the timeline", () => {
+        damageRun(run, 5, "stress");
+        run.tick += 10;
+        healRun(run, 2, "regen");
+        damageRun(run, 5, "stress");
+        expect(run.healthEvents).toEqual([
+            { cause: "stress", start: 0, end: 10, health: -10, shield: 0, healthAfter: 92 },
+            { cause: "regen", start: 10, end: 10, health: 2, shield: 0, healthAfter: 97 },
+        ]);
+
+        run.tick += timelineMergeWindow;
+        damageRun(run, 5, "stress");
+        expect(run.healthEvents).toHaveLength(3);
+    });
+
+    test("Keeps a limited timeline", () => {
+        for (let i = 0; i < timelineLength + 10; i++) {
+            run.tick += timelineMergeWindow;
+            damageRun(run, 0.1, "stress");
+        }
+        expect(run.healthEvents).toHaveLength(timelineLength);
+        expect(run.healthEvents[0].start).toBe(timelineMergeWindow * 11);
+    });
+
+    test("Regenerates from the run config and support buildings", () => {
+        run = createRunState({ ...config, healthRegen: 1 }, {}, 727);
+        run.loops["0x0"].enemies = [];
+        run.health = 50;
+        placeBuilding(run, "0x0", "repairBay");
+        for (let i = 0; i < 60; i++) step(run, tickLength);
+        expect(run.health).toBeCloseTo(51.2);
+        expect(run.healthEvents.map(event => event.cause)).toEqual(["repairBay", "regen"]);
+    });
+});
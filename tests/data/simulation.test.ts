@@ -0,0 +1,682 @@
+// @vitest-environment node
+import { advance, bossInterval, chooseEnemyType, chooseLoop, defaultInfluence, expansionTimeout, createRunState, getBuildingModifiers, getBuildingTier, getCrossChance, getEnemyStress, getInfluence, getInfluenceArea, getInfluenceSources, getLoopPosition, getNeighbors, getWaveRange, moveBuilding, placeBuilding, removeBuilding, spawnBoss, spawnEnemy, spawnEnemies, spawnLoop, step, tickLength, toggleGate } from "data/simulation";
+import { expander, overclocker, sharpener, splitter, wysi } from "data/types/buildings";
+import { BoardMap, RunConfig, RunState } from "data/types/data";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+
+const config: RunConfig = {
+    mode: "standard",
+    enemyDecrease: 0,
+    enemyHealthReduction: 0,
+    buildingUpgrades: {},
+    sellCooldownLength: 60,
+};
+
+function runFor(state: RunState, seconds: number, delta = 0.05) {
+    for (let time = 0; time < seconds; time += delta) {
+        step(state, delta);
+    }
+}
+
+describe("Run simulation", () => {
+    let state: RunState;
+    beforeEach(() => {
+        state = createRunState(config, { energy: 100 });
+    });
+
+    test("Starts with a single loop holding one enemy", () => {
+        expect(Object.keys(state.loops)).toEqual(["0x0"]);
+        expect(state.loops["0x0"].enemies).toHaveLength(1);
+        expect(state.health).toBe(100);
+        expect(state.cycle).toBe(0);
+        expect(state.resources).toEqual({ energy: 100, info: 0 });
+    });
+
+    test("Defeating every enemy collects loot and advances the cycle", () => {
+        placeBuilding(state, "0x0", "beamer");
+        runFor(state, 5);
+        expect(state.resources.energy).toBe(200);
+        expect(state.cycle).toBeGreaterThanOrEqual(1);
+        expect(Object.values(state.loops).some(loop => loop.enemies.length > 0)).toBe(true);
+    });
+
+    test("Cycle timer advances cycles and spawns loops", () => {
+        state.loops["0x0"].enemies[0].health = Infinity;
+        state.cycle = 1;
+        runFor(state, 17);
+        expect(state.cycle).toBe(2);
+        expect(Object.keys(state.loops)).toHaveLength(1);
+        runFor(state, 17);
+        expect(state.cycle).toBe(3);
+        expect(Object.keys(state.loops)).toHaveLength(2);
+    });
+
+    test("Spawned loops are adjacent to existing ones", () => {
+        spawnLoop(state);
+        expect(["1x0", "-1x0", "0x1", "0x-1"]).toContain(Object.keys(state.loops)[1]);
+    });
+
+    test("Undefended runs end from stress", () => {
+        state.loops["0x0"].enemies[0].health = 0;
+        runFor(state, 10 * 60, 0.1);
+        expect(state.health).toBeLessThanOrEqual(0);
+        expect(state.stress).toBeGreaterThan(1);
+    });
+
+    test("Breaks stress down by loop and enemy", () => {
+        state.loops["1x0"] = { enemies: [] };
+        state.loops["0x0"].enemies[0].health = Infinity;
+        state.loops["0x0"].enemies[0].lifetime = 10;
+        state.loops["1x0"].enemies.push({ angle: 0, lifetime: 30, speed: 0, health: Infinity, maxHealth: 100, effects: {}, loot: {} });
+        step(state, tickLength);
+        expect(state.loopStress["1x0"]).toBeGreaterThan(state.loopStress["0x0"]);
+        expect(state.loopStress["0x0"] + state.loopStress["1x0"]).toBeCloseTo(state.stress);
+
+        const enemies = getEnemyStress(state);
+        expect(enemies.map(x => x.loop)).toEqual(["1x0", "0x0"]);
+        expect(enemies[0].stress).toBe(state.loopStress["1x0"]);
+    });
+
+    test("Same seed gives identical runs", () => {
+        const a = createRunState(config, { energy: 100 }, 727);
+        const b = createRunState(config, { energy: 100 }, 727);
+        for (const run of [a, b]) {
+            placeBuilding(run, "0x0", "splatter");
+            runFor(run, 120);
+        }
+        expect(a.cycle).toBeGreaterThan(1);
+        expect(JSON.stringify(a)).toBe(JSON.stringify(b));
+    });
+
+    test("Buildings can read and spend run resources", () => {
+        state.resources.energy = 1000;
+        state.loops["0x0"].enemies[0].health = Infinity;
+        placeBuilding(state, "0x0", "thunder");
+        runFor(state, 1);
+        expect(state.resources.energy).toBeLessThan(1000);
+    });
+});
+
+describe("Enemy types", () => {
+    let state: RunState;
+    beforeEach(() => {
+        state = createRunState(config, { energy: 100 }, 727);
+    });
+
+    function typesAt(cycle: number, enemyFactor = 1) {
+        state.cycle = cycle;
+        return new Set([...Array(500)].map(() => chooseEnemyType(state, enemyFactor)));
+    }
+
+    test("Only spawns drones early on", () => {
+        expect([...typesAt(3)]).toEqual(["normal"]);
+    });
+
+    test("Unlocks types by cycle, sooner in harder modes", () => {
+        expect(typesAt(6).has("swift")).toBe(true);
+        expect(typesAt(6).has("armored")).toBe(false);
+        expect(typesAt(6, 2).has("armored")).toBe(true);
+        expect(typesAt(30).size).toBe(8);
+        expect(typesAt(30).has("warden")).toBe(false);
+    });
+
+    test("Applies type stats on spawn", () => {
+        state.cycle = 40;
+        for (let i = 0; i < 20; i++) spawnEnemies(state);
+        const armored = state.loops["0x0"].enemies.find(enemy => enemy.type == "armored");
+        expect(armored?.resistances).toEqual({ kinetic: 0.5 });
+        expect(armored?.loot.energy).toBe(37.5);
+    });
+
+    test("Runs lifecycle hooks", () => {
+        const enemies = state.loops["0x0"].enemies;
+        const spawned: string[] = [];
+        state.events.on("enemySpawned", (enemy, loop) => spawned.push(enemy.type + " " + loop));
+        enemies[0].type = "splitting";
+        enemies[0].health = 0;
+        enemies.push({ type: "regenerating", angle: 0.5, lifetime: 0, speed: 0, health: 50, maxHealth: 100, effects: {}, loot: {} });
+        step(state, 1);
+        expect(enemies.filter(enemy => enemy.type == "normal")).toHaveLength(2);
+        expect(spawned.slice(0, 2)).toEqual(["normal 0x0", "normal 0x0"]);
+        expect(enemies.find(enemy => enemy.type == "regenerating")?.health).toBe(55);
+    });
+});
+
+describe("Junction routing", () => {
+    let state: RunState;
+    beforeEach(() => {
+        state = createRunState(config, { energy: 1000 }, 727);
+        state.loops["1x0"] = { enemies: [] };
+    });
+
+    test("Gates cycle through closed and both one-way directions", () => {
+        expect(getCrossChance(state, "0x0", "1x0")).toBe(0.5);
+        toggleGate(state, "0x0", "1x0");
+        expect(getCrossChance(state, "0x0", "1x0")).toBe(0);
+        expect(getCrossChance(state, "1x0", "0x0")).toBe(0);
+        toggleGate(state, "0x0", "1x0");
+        expect(getCrossChance(state, "0x0", "1x0")).toBe(0.5);
+        expect(getCrossChance(state, "1x0", "0x0")).toBe(0);
+        toggleGate(state, "0x0", "1x0");
+        expect(getCrossChance(state, "0x0", "1x0")).toBe(0);
+        expect(getCrossChance(state, "1x0", "0x0")).toBe(0.5);
+        toggleGate(state, "0x0", "1x0");
+        expect(state.gates).toEqual({});
+    });
+
+    test("Closed gates keep enemies on their loop", () => {
+        let moves = 0;
+        state.events.on("enemyMoved", () => moves++);
+        state.loops["0x0"].enemies[0].health = Infinity;
+        state.loops["0x0"].enemies[0].speed = 5;
+        toggleGate(state, "1x0", "0x0");
+        runFor(state, 10);
+        expect(moves).toBe(0);
+    });
+
+    test("Routers bias crossings towards or away from their loop", () => {
+        placeBuilding(state, "1x0", "beacon");
+        expect(getCrossChance(state, "0x0", "1x0")).toBeCloseTo(0.7);
+        expect(getCrossChance(state, "1x0", "0x0")).toBeCloseTo(0.3);
+        placeBuilding(state, "0x0", "repeller");
+        expect(getCrossChance(state, "0x0", "1x0")).toBeCloseTo(0.9);
+        toggleGate(state, "0x0", "1x0");
+        expect(getCrossChance(state, "0x0", "1x0")).toBe(0);
+    });
+});
+
+describe("Topologies", () => {
+    const hexConfig = { ...config, topology: "hex" };
+
+    function boardPosition(state: RunState, loop: string, angle: number) {
+        const { x, y } = getLoopPosition(state, loop);
+        return { x: x + Math.sin(angle * 2 * Math.PI) * .5, y: y + Math.cos(angle * 2 * Math.PI) * .5 };
+    }
+
+    test("Hex loops touch all six neighbours", () => {
+        const state = createRunState(hexConfig, {}, 727);
+        const neighbors = getNeighbors(state, "0x0");
+        expect(neighbors).toHaveLength(6);
+        for (const neighbor of neighbors) {
+            const { x, y } = getLoopPosition(state, neighbor);
+            expect(Math.hypot(x, y)).toBeCloseTo(1);
+        }
+    });
+
+    test("Hex loops spawn next to existing ones", () => {
+        const state = createRunState(hexConfig, {}, 727);
+        for (let i = 0; i < 10; i++) spawnLoop(state);
+        for (const id of Object.keys(state.loops).slice(1)) {
+            expect(getNeighbors(state, id).some(neighbor => neighbor != id && state.loops[neighbor])).toBe(true);
+        }
+    });
+
+    test("Enemies cross hex junctions without jumping", () => {
+        const state = createRunState(hexConfig, {}, 727);
+        const neighbors = getNeighbors(state, "0x0");
+        for (const neighbor of neighbors) state.loops[neighbor] = { enemies: [] };
+        const enemy = state.loops["0x0"].enemies[0];
+        enemy.health = Infinity;
+        enemy.speed = 1;
+
+        const crossed = new Set<string>();
+        state.events.on("enemyMoved", (moved, from, to) => {
+            const junction = getNeighbors(state, from).indexOf(to) * 2 + 1;
+            const before = boardPosition(state, from, junction / 12);
+            const after = boardPosition(state, to, moved.angle);
+            expect(Math.hypot(after.x - before.x, after.y - before.y)).toBeLessThan(0.01);
+            crossed.add(to);
+        });
+        runFor(state, 60, tickLength);
+        expect(crossed.size).toBeGreaterThan(3);
+    });
+});
+
+describe("Loop expansion", () => {
+    let state: RunState;
+    beforeEach(() => {
+        state = createRunState({ ...config, expansion: "choice" }, { energy: 100 }, 727);
+        state.loops["0x0"].enemies[0].health = Infinity;
+        state.cycle = 2;
+        state.cycleProgress = 0.99;
+        runFor(state, 1);
+    });
+
+    test("Pauses the cycle timer until a candidate is chosen", () => {
+        expect(state.cycle).toBe(3);
+        expect(state.expansionCandidates.sort()).toEqual(["-1x0", "0x-1", "0x1", "1x0"]);
+        const progress = state.cycleProgress;
+        runFor(state, 5);
+        expect(state.cycleProgress).toBe(progress);
+
+        expect(chooseLoop(state, "5x5")).toBe(false);
+        expect(chooseLoop(state, "0x1")).toBe(true);
+        expect(Object.keys(state.loops)).toEqual(["0x0", "0x1"]);
+        expect(state.expansionCandidates).toEqual([]);
+        runFor(state, 1);
+        expect(state.cycleProgress).toBeGreaterThan(progress);
+    });
+
+    test("Falls back to a random loop when time runs out", () => {
+        runFor(state, expansionTimeout + 1);
+        expect(state.expansionCandidates).toEqual([]);
+        expect(Object.keys(state.loops)).toHaveLength(2);
+    });
+});
+
+describe("Terrains", () => {
+    let state: RunState;
+    beforeEach(() => {
+        state = createRunState(config, { energy: 100 }, 727);
+        state.cycleProgress = -Infinity;
+    });
+
+    test("Rolls terrains on some spawned loops", () => {
+        for (let i = 0; i < 40; i++) spawnLoop(state);
+        const rolled = Object.values(state.loops).filter(loop => loop.terrain).length;
+        expect(rolled).toBeGreaterThan(0);
+        expect(rolled).toBeLessThan(Object.keys(state.loops).length);
+    });
+
+    test("Scales enemy movement", () => {
+        const enemy = state.loops["0x0"].enemies[0];
+        enemy.health = Infinity;
+        step(state, 1);
+        const plain = enemy.angle;
+        state.loops["0x0"].terrain = "current";
+        step(state, 1);
+        expect(enemy.angle - plain).toBeCloseTo(plain * 1.5);
+    });
+
+    test("Multiplies loot", () => {
+        state.loops["0x0"].terrain = "vein";
+        state.loops["0x0"].enemies[0].health = 0;
+        step(state, tickLength);
+        expect(state.resources.energy).toBe(250);
+    });
+
+    test("Weighs stress", () => {
+        state.loops["0x0"].enemies[0].health = Infinity;
+        state.loops["0x0"].enemies[0].lifetime = 10;
+        step(state, tickLength);
+        const plain = state.stress;
+        state.loops["0x0"].terrain = "unstable";
+        step(state, tickLength);
+        expect(state.stress).toBeCloseTo(plain * 2, 2);
+    });
+
+    test("Blocks influence", () => {
+        state.loops["1x0"] = { enemies: [] };
+        placeBuilding(state, "0x0", "beamer");
+        placeBuilding(state, "1x0", "sharpener");
+        expect(Object.keys(getInfluence(state, "0x0"))).not.toHaveLength(0);
+        state.loops["0x0"].terrain = "nullField";
+        expect(getInfluence(state, "0x0")).toEqual({});
+    });
+});
+
+describe("Influences", () => {
+    let state: RunState;
+    beforeEach(() => {
+        state = createRunState(config, { energy: 100 }, 727);
+        for (const id of ["1x0", "2x0", "1x1", "0x2", "0x-1", "-1x0"]) state.loops[id] = { enemies: [] };
+    });
+    afterEach(() => {
+        for (const type of [sharpener, overclocker, expander, wysi]) delete type.influence;
+        delete wysi.influences;
+    });
+
+    test("Covers loops by shape", () => {
+        expect(getInfluenceArea(state, "0x0", { type: "adjacent" }).sort()).toEqual(["-1x0", "0x-1", "1x0"]);
+        expect(getInfluenceArea(state, "0x0", { type: "diagonal" })).toEqual(["1x1"]);
+        expect(getInfluenceArea(state, "0x0", { type: "radius", radius: 2 }).sort()).toEqual(["-1x0", "0x-1", "0x2", "1x0", "1x1", "2x0"]);
+        expect(getInfluenceArea(state, "0x0", { type: "line" }).sort()).toEqual(["-1x0", "0x-1", "0x2", "1x0", "2x0"]);
+    });
+
+    test("Defaults to multiplying adjacent buildings of any class", () => {
+        placeBuilding(state, "0x0", "freezer");
+        placeBuilding(state, "1x0", "sharpener");
+        placeBuilding(state, "-1x0", "sharpener");
+        placeBuilding(state, "1x1", "sharpener");
+        expect(getInfluenceSources(state, "0x0").sort()).toEqual(["-1x0", "1x0"]);
+        expect(getInfluence(state, "0x0").damage).toBeCloseTo(1.5 * 1.5);
+    });
+
+    test("Follows buildings placed, moved and removed within a tick", () => {
+        placeBuilding(state, "0x0", "beamer");
+        expect(getInfluenceSources(state, "0x0")).toEqual([]);
+        placeBuilding(state, "2x0", "sharpener");
+        expect(getInfluenceSources(state, "0x0")).toEqual([]);
+        moveBuilding(state, "2x0", "1x0");
+        expect(getInfluenceSources(state, "0x0")).toEqual(["1x0"]);
+        removeBuilding(state, "1x0");
+        expect(getInfluenceSources(state, "0x0")).toEqual([]);
+    });
+
+    test("Follows buildings that remove themselves", () => {
+        wysi.influence = defaultInfluence;
+        wysi.influences = () => ({ damage: 2 });
+        state.resources.energy = 1e9;
+        placeBuilding(state, "0x0", "beamer");
+        placeBuilding(state, "1x0", "wysi");
+        expect(getInfluenceSources(state, "0x0")).toEqual(["1x0"]);
+        const removed: string[] = [];
+        state.events.on("buildingRemoved", (building, loop) => removed.push(building.type + "@" + loop));
+        const building = state.loops["1x0"].building!;
+        building.data.time = 72.7;
+        wysi.onUpdate!(building, state.loops["1x0"], 0, {}, state);
+        expect(state.loops["1x0"].building).toBeUndefined();
+        expect(removed).toEqual(["wysi@1x0"]);
+        expect(getInfluenceSources(state, "0x0")).toEqual([]);
+    });
+
+    test("Only affects targeted classes", () => {
+        sharpener.influence = { ...defaultInfluence, targets: ["damager"] };
+        placeBuilding(state, "1x0", "sharpener");
+        placeBuilding(state, "0x0", "freezer");
+        expect(getInfluenceSources(state, "0x0")).toEqual([]);
+        expect(getInfluenceSources(state, "0x0", "damager")).toEqual(["1x0"]);
+        expect(getInfluence(state, "0x0")).toEqual({});
+    });
+
+    test("Stacks multipliers by mode", () => {
+        overclocker.influence = { ...defaultInfluence, stacking: "add" };
+        placeBuilding(state, "0x0", "beamer");
+        placeBuilding(state, "1x0", "sharpener");
+        placeBuilding(state, "-1x0", "sharpener");
+        expect(getInfluence(state, "0x0").damage).toBeCloseTo(1.5 * 1.5);
+
+        placeBuilding(state, "2x0", "overclocker");
+        placeBuilding(state, "0x-1", "overclocker");
+        placeBuilding(state, "1x1", "overclocker");
+        expect(getInfluence(state, "0x0").speed).toBeCloseTo(1.25);
+        expect(getInfluence(state, "1x0", "damager").speed).toBeCloseTo(1.5);
+    });
+
+    test("Caps stacked multipliers", () => {
+        overclocker.influence = { ...defaultInfluence, cap: 2 };
+        placeBuilding(state, "0x0", "beamer");
+        placeBuilding(state, "1x0", "overclocker");
+        placeBuilding(state, "0x-1", "overclocker");
+        placeBuilding(state, "-1x0", "overclocker");
+        state.loops["1x0"].building!.upgrades.factor = 5;
+        expect(getInfluence(state, "0x0").speed).toBe(2);
+    });
+
+    test("Keeps only the highest of max stacking", () => {
+        expander.influence = { shape: { type: "line" }, stacking: "max" };
+        placeBuilding(state, "0x0", "energizer");
+        placeBuilding(state, "2x0", "expander");
+        placeBuilding(state, "0x2", "expander");
+        state.loops["0x2"].building!.upgrades.factor = 2;
+        expect(getInfluence(state, "0x0").threshold).toBeCloseTo(1.35);
+    });
+});
+
+describe("Specializations", () => {
+    let state: RunState;
+    beforeEach(() => {
+        state = createRunState(config, { energy: 100 }, 727);
+        state.loops["1x0"] = { enemies: [] };
+        spawnEnemy(state, "normal", "1x0");
+        for (const enemy of [...state.loops["0x0"].enemies, ...state.loops["1x0"].enemies]) enemy.health = enemy.maxHealth = 1000;
+        placeBuilding(state, "0x0", "beamer");
+        state.loops["0x0"].building!.data.prg = 0.999;
+    });
+
+    test("Piercing beams hit an adjacent loop too", () => {
+        state.loops["0x0"].building!.specialization = "piercing";
+        step(state, tickLength);
+        expect(state.loops["0x0"].enemies[0].health).toBeLessThan(1000);
+        expect(state.loops["1x0"].enemies[0].health).toBeLessThan(1000);
+    });
+
+    test("Merged tiers multiply the building's own modifiers", () => {
+        state.loops["1x0"].building = { type: "sharpener", upgrades: {}, data: {}, sellValue: {} };
+        expect(getBuildingModifiers(state, "0x0").damage).toBeCloseTo(1.5);
+        state.loops["0x0"].building!.tier = 2;
+        expect(getBuildingModifiers(state, "0x0").damage).toBeCloseTo(1.5 * 2.5);
+        expect(getBuildingTier(state.loops["0x0"].building!)?.name).toBe("Twin Beamer");
+    });
+
+    test("Decaying beams apply Decay", () => {
+        state.loops["0x0"].building!.specialization = "decaying";
+        step(state, tickLength);
+        expect(state.loops["0x0"].enemies[0].effects.decay).toBeGreaterThan(0);
+        expect(state.loops["1x0"].enemies[0].health).toBe(1000);
+    });
+});
+
+describe("Maps", () => {
+    const map: BoardMap = {
+        name: "Corridor",
+        topology: "square",
+        loops: ["1x0", "0x0"],
+        blocked: ["0x1", "0x-1", "1x1", "1x-1", "-1x1", "-1x-1"],
+        buildings: { "1x0": "beamer" },
+        spawnOrder: ["2x0"],
+    };
+
+    test("Start from the map's loops and neutral buildings", () => {
+        const state = createRunState({ ...config, map }, {}, 727);
+        expect(Object.keys(state.loops).sort()).toEqual(["0x0", "1x0"]);
+        expect(state.loops["0x0"].enemies).toHaveLength(1);
+        expect(state.loops["1x0"].building).toMatchObject({ type: "beamer", neutral: true });
+    });
+
+    test("Spawn loops in order, then never on blocked cells", () => {
+        const state = createRunState({ ...config, map }, {}, 727);
+        spawnLoop(state);
+        expect(Object.keys(state.loops)).toContain("2x0");
+        for (let i = 0; i < 20; i++) spawnLoop(state);
+        for (const cell of map.blocked) expect(state.loops[cell]).toBeUndefined();
+    });
+});
+
+describe("Waves", () => {
+    test("Standard waves follow the original scaling", () => {
+        for (const cycle of [0, 1, 10, 39, 40, 75]) {
+            const range = getWaveRange("standard", cycle);
+            expect(range.count(cycle)).toBeCloseTo(1 + 0.1 * cycle + 0.01 * cycle * Math.min(cycle, 40));
+            expect(range.health(cycle)).toBeCloseTo(18 * (1 + 0.05 * cycle) * 1.02 ** cycle);
+            expect(range.speed(cycle)).toBeCloseTo(1 + 0.05 * cycle);
+        }
+    });
+
+    test("Harder modes scale faster and unlock types sooner", () => {
+        expect(getWaveRange("hardcore", 20).health(20)).toBeCloseTo(18 * (1 + 0.05 * 40 ** 2) * 1.02 ** 20);
+        expect(getWaveRange("boosted", 20).unlockRate).toBe(1.5);
+        expect(getWaveRange("standard", 20).unlockRate).toBeUndefined();
+    });
+
+    test("Unknown modes fall back to standard waves", () => {
+        expect(getWaveRange("unknown", 50)).toBe(getWaveRange("standard", 50));
+    });
+});
+
+describe("Bosses", () => {
+    let state: RunState;
+    beforeEach(() => {
+        state = createRunState(config, { energy: 100 }, 727);
+    });
+
+    test("Spawn on milestone cycles only", () => {
+        const bosses: number[] = [];
+        state.events.on("enemySpawned", enemy => {
+            if (enemy.type == "warden") bosses.push(state.cycle);
+        });
+        state.loops["0x0"].enemies[0].health = Infinity;
+        state.cycle = 1;
+        runFor(state, 25 * 20, 0.1);
+        expect(state.cycle).toBeGreaterThan(bossInterval * 2);
+        expect(bosses).toEqual([bossInterval, bossInterval * 2]);
+    });
+
+    test("Change phases at health thresholds", () => {
+        spawnLoop(state);
+        state.cycle = bossInterval;
+        const boss = spawnBoss(state)!;
+        const phases: number[] = [];
+        state.events.on("bossPhaseChanged", (enemy, phase) => phases.push(phase));
+        const speed = boss.speed;
+        const enemies = () => Object.values(state.loops).reduce((total, loop) => total + loop.enemies.length, 0);
+        const before = enemies();
+
+        boss.health = boss.maxHealth * 0.7;
+        step(state, tickLength);
+        expect(phases).toEqual([1]);
+        expect(boss.speed).toBe(speed * 2);
+
+        boss.effects.freeze = 10;
+        boss.health = boss.maxHealth * 0.1;
+        step(state, tickLength);
+        expect(phases).toEqual([1, 2, 3]);
+        expect(boss.effects).toEqual({});
+        expect(enemies()).toBe(before + 12);
+    });
+
+    test("Drop bonus loot", () => {
+        state.cycle = bossInterval;
+        state.loops["0x0"].enemies = [];
+        const boss = spawnBoss(state)!;
+        boss.health = 0;
+        boss.loot = {};
+        step(state, tickLength);
+        expect(state.resources.info).toBe(50);
+    });
+
+    test("Scale bonus loot with the cycle they spawned in", () => {
+        state.cycle = bossInterval;
+        state.loops["0x0"].enemies = [];
+        const boss = spawnBoss(state)!;
+        expect(boss.cycle).toBe(bossInterval);
+        state.cycle = bossInterval * 2 - 1;
+        boss.health = 0;
+        boss.loot = {};
+        step(state, tickLength);
+        expect(state.resources.info).toBe(50);
+    });
+
+    test("Can't be split", () => {
+        state.loops["0x0"].enemies = [];
+        const boss = spawnBoss(state)!;
+        placeBuilding(state, "0x0", "splitter");
+        const building = state.loops["0x0"].building!;
+        building.upgrades.chance = 10;
+        for (let i = 0; i < 20; i++) splitter.onEnemyEnter!(building, state.loops["0x0"], boss, {}, state);
+        expect(state.loops["0x0"].enemies).toEqual([boss]);
+    });
+});
+
+describe("Run events", () => {
+    let state: RunState;
+    beforeEach(() => {
+        state = createRunState(config, { energy: 100 }, 727);
+    });
+
+    test("Reports placements, damage and kills", () => {
+        const log: string[] = [];
+        state.events.on("buildingPlaced", (building, loop) => log.push("placed " + building.type + " " + loop));
+        state.events.on("damageDealt", (enemy, result, damage, source) => {
+            expect(source).toBe(state.loops["0x0"]);
+            log.push("damage " + damage.amount);
+        });
+        state.events.on("enemyKilled", (enemy, loop) => log.push("killed " + loop));
+        state.loops["0x0"].enemies[0].health = 10;
+        placeBuilding(state, "0x0", "beamer");
+        runFor(state, 2.1);
+        expect(log).toEqual(["placed beamer 0x0", "damage 10", "killed 0x0"]);
+    });
+
+    test("Reports cycles along with the enemies and loops they spawn", () => {
+        const log: string[] = [];
+        state.events.on("enemySpawned", (enemy, loop) => {
+            expect(state.loops[loop].enemies).toContain(enemy);
+            log.push("enemy");
+        });
+        state.events.on("loopSpawned", loop => log.push("loop " + (loop in state.loops)));
+        state.events.on("cycleAdvanced", cycle => log.push("cycle " + cycle));
+        state.loops["0x0"].enemies[0].health = 0;
+        runFor(state, 0.1);
+        expect(log).toEqual(["enemy", "loop true", "cycle 1"]);
+    });
+
+    test("Reports health lost to stress", () => {
+        let lost = 0;
+        state.events.on("healthLost", amount => lost += amount);
+        state.loops["0x0"].enemies[0].health = 0;
+        runFor(state, 10 * 60, 0.1);
+        expect(lost).toBeCloseTo(100 - state.health);
+    });
+});
+
+describe("Fixed timestep", () => {
+    function playAtSpeed(speed: number, seconds: number, fps = 50) {
+        const state = createRunState(config, { energy: 1000 }, 727);
+        placeBuilding(state, "0x0", "splatter");
+        for (let frame = 0; frame < seconds * fps / speed; frame++) {
+            advance(state, speed / fps);
+        }
+        return state;
+    }
+
+    test("Splits long frames into fixed ticks", () => {
+        const state = createRunState(config, { energy: 100 }, 727);
+        advance(state, 1 + tickLength / 2);
+        expect(state.tick).toBe(60);
+        expect(state.lifetime).toBeCloseTo(1);
+    });
+
+    test("Carries short frames over to the next call", () => {
+        const state = createRunState(config, { energy: 100 }, 727);
+        advance(state, tickLength / 2);
+        expect(state.tick).toBe(0);
+        advance(state, tickLength / 2);
+        advance(state, tickLength / 4);
+        expect(state.tick).toBe(1);
+    });
+
+    test("Stops ticking once the run is over", () => {
+        const state = createRunState(config, { energy: 100 }, 727);
+        state.health = 0;
+        advance(state, 1);
+        expect(state.tick).toBe(0);
+    });
+
+    test("1x and 4x speed give identical outcomes for the same seed", () => {
+        const normal = playAtSpeed(1, 120);
+        const fast = playAtSpeed(4, 120);
+        // Floating point error in the accumulator can leave one run a tick behind
+        while (normal.tick < fast.tick) advance(normal, tickLength);
+        while (fast.tick < normal.tick) advance(fast, tickLength);
+
+        expect(normal.cycle).toBeGreaterThan(4);
+        expect(JSON.stringify({ ...normal, accumulator: 0 })).toBe(JSON.stringify({ ...fast, accumulator: 0 }));
+    });
+
+    test("Runs the callback before every tick", () => {
+        const state = createRunState(config, { energy: 100 }, 727);
+        const ticks: number[] = [];
+        advance(state, tickLength * 3, run => ticks.push(run.tick));
+        expect(ticks).toEqual([0, 1, 2]);
+    });
+
+    test("Inputs applied on their recorded tick replay the same run", () => {
+        const live = createRunState(config, { energy: 1000 }, 727);
+        advance(live, 2);
+        const placedAt = live.tick;
+        placeBuilding(live, "0x0", "splatter");
+        advance(live, 60);
+
+        const replay = createRunState(config, { energy: 1000 }, 727);
+        for (let frame = 0; frame < 62 * 10; frame++) {
+            advance(replay, 0.1, run => {
+                if (run.tick == placedAt) placeBuilding(run, "0x0", "splatter");
+            });
+        }
+        while (replay.tick < live.tick) advance(replay, tickLength);
+        while (live.tick < replay.tick) advance(live, tickLength);
+
+        expect(JSON.stringify({ ...replay, accumulator: 0 })).toBe(JSON.stringify({ ...live, accumulator: 0 }));
+    });
+});
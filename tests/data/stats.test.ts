@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { createRunState, mergeBuildings, moveBuilding, placeBuilding, resetRun, step, tickLength } from "data/simulation";
+import { addBuildingStats, createBuildingStats, getBuildingStats } from "data/stats";
+import { addLoot, applyEffect, dealDamage } from "data/types/buildingHelper";
+import { Building, Enemy, RunConfig, RunState } from "data/types/data";
+import { beforeEach, describe, expect, test } from "vitest";
+
+const config: RunConfig = {
+    mode: "standard",
+    enemyDecrease: 0,
+    enemyHealthReduction: 0,
+    buildingUpgrades: {},
+    sellCooldownLength: 60,
+};
+
+describe("Building stats", () => {
+    let run: RunState;
+    let building: Building;
+    let enemy: Enemy;
+    beforeEach(() => {
+        run = createRunState(config, { energy: 100 }, 727);
+        placeBuilding(run, "0x0", "beamer");
+        building = run.loops["0x0"].building!;
+        enemy = run.loops["0x0"].enemies[0];
+        enemy.health = enemy.maxHealth = 10;
+    });
+
+    test("Starts empty", () => {
+        expect(getBuildingStats(building)).toEqual(createBuildingStats());
+        expect(run.buildingStats).toEqual({});
+    });
+
+    test("Counts damage dealt and last hits", () => {
+        dealDamage(enemy, { amount: 4, type: "true", source: building }, run.loops["0x0"], run);
+        dealDamage(enemy, { amount: 20, type: "true", source: building }, run.loops["0x0"], run);
+        expect(building.stats?.damage).toBe(10);
+        expect(building.stats?.lastHits).toBe(1);
+        expect(run.buildingStats.beamer.damage).toBe(10);
+    });
+
+    test("Credits kills to the building that damaged the enemy last", () => {
+        run.loops["1x0"] = { enemies: [] };
+        placeBuilding(run, "1x0", "splatter");
+        const splatter = run.loops["1x0"].building!;
+        dealDamage(enemy, { amount: 4, type: "true", source: building }, run.loops["0x0"], run);
+        dealDamage(enemy, { amount: 4, type: "true", source: splatter }, run.loops["1x0"], run);
+        enemy.health = 0;
+        step(run, tickLength);
+        expect(building.stats?.kills ?? 0).toBe(0);
+        expect(splatter.stats?.kills).toBe(1);
+        expect(run.buildingStats.splatter.kills).toBe(1);
+        expect(run.buildingStats.beamer.kills).toBe(0);
+    });
+
+    test("Credits kills by building ID, so they survive saving and moving", () => {
+        run.loops["1x0"] = { enemies: [] };
+        dealDamage(enemy, { amount: 4, type: "true", source: building }, run.loops["0x0"], run);
+        expect(enemy.lastHitBy).toBe(building.id);
+        moveBuilding(run, "0x0", "1x0");
+        run.loops = JSON.parse(JSON.stringify(run.loops));
+        enemy = run.loops["0x0"].enemies[0];
+        enemy.health = 0;
+        step(run, tickLength);
+        expect(run.loops["1x0"].building?.stats?.kills).toBe(1);
+    });
+
+    test("Doesn't credit kills nobody dealt", () => {
+        enemy.health = 0;
+        step(run, tickLength);
+        expect(building.stats?.kills ?? 0).toBe(0);
+    });
+
+    test("Counts effects applied and loot generated", () => {
+        applyEffect(enemy, "swamped", 1, run.loops["0x0"], run);
+        addLoot(enemy, "energy", 5, run.loops["0x0"], run);
+        expect(building.stats?.effects).toBe(1);
+        expect(building.stats?.generated).toEqual({ energy: 5 });
+        expect(enemy.loot.energy).toBeGreaterThanOrEqual(5);
+    });
+
+    test("Counts time alive", () => {
+        step(run, tickLength);
+        expect(building.stats?.time).toBeCloseTo(tickLength);
+        expect(run.buildingStats.beamer.time).toBeCloseTo(tickLength);
+    });
+
+    test("Type stats outlive the building", () => {
+        dealDamage(enemy, { amount: 4, type: "true", source: building }, run.loops["0x0"], run);
+        delete run.loops["0x0"].building;
+        expect(run.buildingStats.beamer.damage).toBe(4);
+        resetRun(run);
+        expect(run.buildingStats).toEqual({});
+    });
+
+    test("Merged buildings keep both buildings' stats", () => {
+        run.loops["1x0"] = { enemies: [] };
+        placeBuilding(run, "1x0", "beamer");
+        dealDamage(enemy, { amount: 4, type: "true", source: building }, run.loops["0x0"], run);
+        dealDamage(enemy, { amount: 3, type: "true", source: run.loops["1x0"].building! }, run.loops["1x0"], run);
+        mergeBuildings(run, "0x0", "1x0");
+        expect(run.loops["0x0"].building?.stats?.damage).toBe(7);
+        expect(enemy.lastHitBy).toBe(building.id);
+    });
+
+    test("Adds stats together", () => {
+        let stats = addBuildingStats(createBuildingStats(), { ...createBuildingStats(), kills: 2, generated: { info: 1 } });
+        expect(stats.kills).toBe(2);
+        expect(stats.generated).toEqual({ info: 1 });
+    });
+});
@@ -0,0 +1,122 @@
+// @vitest-environment node
+import { createRunState } from "data/simulation";
+import { applyEffect, critMultiplier, dealDamage, getEffectMultiplier } from "data/types/buildingHelper";
+import { Building, Damage, Enemy, RunState } from "data/types/data";
+import { beforeEach, describe, expect, test } from "vitest";
+
+describe("Damage pipeline", () => {
+    let run: RunState;
+    let enemy: Enemy;
+    let source: Building;
+    beforeEach(() => {
+        run = createRunState({
+            mode: "standard",
+            enemyDecrease: 0,
+            enemyHealthReduction: 0,
+            buildingUpgrades: {},
+            sellCooldownLength: 60,
+        }, {}, 727);
+        enemy = { angle: 0, lifetime: 0, speed: 1, health: 100, maxHealth: 100, effects: {}, loot: {} };
+        source = { type: "beamer", upgrades: {}, data: {}, sellValue: {} };
+    });
+
+    function damage(amount: number, extra: Partial<Damage> = {}): Damage {
+        return { amount, type: "kinetic", source, ...extra };
+    }
+
+    test("Deals plain damage", () => {
+        expect(dealDamage(enemy, damage(30), run.loops["0x0"], run)).toEqual({ dealt: 30, overkill: 0, crit: false });
+        expect(enemy.health).toBe(70);
+    });
+
+    test("Reports overkill", () => {
+        enemy.health = 10;
+        expect(dealDamage(enemy, damage(30), run.loops["0x0"], run)).toEqual({ dealt: 10, overkill: 20, crit: false });
+        expect(enemy.health).toBe(-20);
+    });
+
+    test("Applies effects unless ignored", () => {
+        enemy.effects.decay = 1;
+        expect(dealDamage(enemy, damage(10), run.loops["0x0"], run).dealt).toBe(20);
+        expect(dealDamage(enemy, damage(10, { ignoreEffects: true }), run.loops["0x0"], run).dealt).toBe(10);
+    });
+
+    test("Applies resistances after effects, except to true damage", () => {
+        enemy.effects.decay = 1;
+        enemy.resistances = { kinetic: 0.5 };
+        expect(dealDamage(enemy, damage(10), run.loops["0x0"], run).dealt).toBe(10);
+        expect(dealDamage(enemy, damage(10, { type: "thermal" }), run.loops["0x0"], run).dealt).toBe(20);
+        expect(dealDamage(enemy, damage(10, { type: "true" }), run.loops["0x0"], run).dealt).toBe(20);
+    });
+
+    test("Crits only when allowed", () => {
+        enemy.health = Infinity;
+        const results = [...Array(200)].map(() => dealDamage(enemy, damage(10, { canCrit: true }), run.loops["0x0"], run));
+        expect(results.some(result => result.crit)).toBe(true);
+        for (const result of results) {
+            expect(result.dealt).toBe(result.crit ? 10 * critMultiplier : 10);
+        }
+        const rng = run.rng;
+        expect(dealDamage(enemy, damage(10), run.loops["0x0"], run).crit).toBe(false);
+        expect(run.rng).toBe(rng);
+    });
+
+    test("Emits the result", () => {
+        let emitted: unknown[] = [];
+        run.events.on("damageDealt", (...args) => emitted = args);
+        const result = dealDamage(enemy, damage(10), run.loops["0x0"], run);
+        expect(emitted).toEqual([enemy, result, damage(10), run.loops["0x0"]]);
+    });
+});
+
+describe("Status effects", () => {
+    let run: RunState;
+    let enemy: Enemy;
+    beforeEach(() => {
+        run = createRunState({
+            mode: "standard",
+            enemyDecrease: 0,
+            enemyHealthReduction: 0,
+            buildingUpgrades: {},
+            sellCooldownLength: 60,
+        }, {}, 727);
+        enemy = { angle: 0, lifetime: 0, speed: 1, health: 100, maxHealth: 100, effects: {}, loot: {} };
+    });
+
+    test("Combines multipliers of every effect", () => {
+        applyEffect(enemy, "blaze", 5, run.loops["0x0"], run);
+        applyEffect(enemy, "decay", 5, run.loops["0x0"], run);
+        applyEffect(enemy, "swamped", 5, run.loops["0x0"], run);
+        expect(getEffectMultiplier(enemy, "movement")).toBe(1);
+        expect(getEffectMultiplier(enemy, "damageTaken")).toBe(8);
+    });
+
+    test("Follows stacking rules", () => {
+        applyEffect(enemy, "freeze", 5, run.loops["0x0"], run);
+        applyEffect(enemy, "freeze", 2, run.loops["0x0"], run);
+        expect(enemy.effects.freeze).toBe(2);
+        applyEffect(enemy, "swamped", 5, run.loops["0x0"], run);
+        applyEffect(enemy, "swamped", 2, run.loops["0x0"], run);
+        expect(enemy.effects.swamped).toBe(5);
+    });
+
+    test("Removes exclusive effects unless Duality is active", () => {
+        applyEffect(enemy, "freeze", 5, run.loops["0x0"], run);
+        applyEffect(enemy, "blaze", 5, run.loops["0x0"], run);
+        expect(enemy.effects).toEqual({ blaze: 5 });
+        applyEffect(enemy, "duality", 5, run.loops["0x0"], run);
+        applyEffect(enemy, "freeze", 5, run.loops["0x0"], run);
+        expect(enemy.effects).toEqual({ blaze: 5, duality: 5, freeze: 5 });
+    });
+
+    test("Can't affect immune enemies", () => {
+        enemy.type = "immune";
+        applyEffect(enemy, "freeze", 5, run.loops["0x0"], run);
+        expect(enemy.effects).toEqual({});
+    });
+
+    test("Ignores unknown effects", () => {
+        enemy.effects.blazing = 5;
+        expect(getEffectMultiplier(enemy, "damageTaken")).toBe(1);
+    });
+});
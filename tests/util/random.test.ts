@@ -0,0 +1,39 @@
+import { createSeed, formatSeed, random } from "util/random";
+import { describe, expect, test } from "vitest";
+
+describe("random", () => {
+    test("Returns numbers in [0, 1)", () => {
+        const source = { rng: createSeed() };
+        for (let i = 0; i < 1000; i++) {
+            const value = random(source);
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        }
+    });
+
+    test("Same seed gives the same sequence", () => {
+        const a = { rng: 727 };
+        const b = { rng: 727 };
+        for (let i = 0; i < 100; i++) {
+            expect(random(a)).toBe(random(b));
+        }
+    });
+
+    test("Different seeds give different sequences", () => {
+        const a = { rng: 1 };
+        const b = { rng: 2 };
+        expect(random(a)).not.toBe(random(b));
+    });
+
+    test("Advances the generator state", () => {
+        const source = { rng: 0 };
+        random(source);
+        expect(source.rng).not.toBe(0);
+    });
+});
+
+describe("formatSeed", () => {
+    test("Pads to 8 hexadecimal digits", () => expect(formatSeed(255)).toBe("000000FF"));
+
+    test("Formats the largest seed", () => expect(formatSeed(4294967295)).toBe("FFFFFFFF"));
+});